@@ -73,10 +73,11 @@ export class AuthClient {
         await this.httpClient.post("/v1/auth/logout", { all: true });
       } catch (error) {
         // Log warning but don't fail - local cleanup is more important
-        console.warn(
-          "Server-side logout failed, continuing with local cleanup:",
-          error
-        );
+        this.httpClient
+          .getLogger()
+          .warn("[Auth] Server-side logout failed, continuing with local cleanup", {
+            error: error instanceof Error ? error.message : String(error),
+          });
       }
     }
 
@@ -97,9 +98,9 @@ export class AuthClient {
     // Restore API key as the active auth method
     if (this.currentApiKey) {
       this.httpClient.setApiKey(this.currentApiKey);
-      console.log("[Auth] API key restored after user logout");
+      this.httpClient.getLogger().info("[Auth] API key restored after user logout");
     } else {
-      console.warn("[Auth] No API key available after logout");
+      this.httpClient.getLogger().warn("[Auth] No API key available after logout");
     }
   }
 
@@ -115,10 +116,11 @@ export class AuthClient {
         await this.httpClient.post("/v1/auth/logout", { all: true });
       } catch (error) {
         // Log warning but don't fail - local cleanup is more important
-        console.warn(
-          "Server-side logout failed, continuing with local cleanup:",
-          error
-        );
+        this.httpClient
+          .getLogger()
+          .warn("[Auth] Server-side logout failed, continuing with local cleanup", {
+            error: error instanceof Error ? error.message : String(error),
+          });
       }
     }
 
@@ -1,14 +1,15 @@
-import { HttpClient } from "../core/http";
-import { SDKError } from "../errors";
+import { CallOptions, HttpClient, MutationOptions } from "../core/http";
+import { SchemaOptions, validateResponse } from "../core/validation";
+import { NotFoundError } from "../errors";
 
 export interface CacheGetRequest {
   dmap: string;
   key: string;
 }
 
-export interface CacheGetResponse {
+export interface CacheGetResponse<T = any> {
   key: string;
-  value: any;
+  value: T;
   dmap: string;
 }
 
@@ -75,33 +76,52 @@ export class CacheClient {
   /**
    * Check cache service health
    */
-  async health(): Promise<CacheHealthResponse> {
-    return this.httpClient.get("/v1/cache/health");
+  async health(options: CallOptions = {}): Promise<CacheHealthResponse> {
+    return this.httpClient.get("/v1/cache/health", options);
   }
 
   /**
    * Get a value from cache
-   * Returns null if the key is not found (cache miss/expired), which is normal behavior
+   * Returns null if the key is not found (cache miss/expired), which is normal behavior.
+   * Pass `schema` to validate and type the cached value.
    */
-  async get(dmap: string, key: string): Promise<CacheGetResponse | null> {
+  async get<T = any>(
+    dmap: string,
+    key: string,
+    options: CallOptions & SchemaOptions<T> = {}
+  ): Promise<CacheGetResponse<T> | null> {
+    const { schema, ...callOptions } = options;
+    let response: CacheGetResponse;
     try {
-      return await this.httpClient.post<CacheGetResponse>("/v1/cache/get", {
-        dmap,
-        key,
-      });
+      response = await this.httpClient.post<CacheGetResponse>(
+        "/v1/cache/get",
+        {
+          dmap,
+          key,
+        },
+        { ...callOptions, idempotent: true }
+      );
     } catch (error) {
-      // Cache misses (404 or "key not found" messages) are normal behavior - return null instead of throwing
-      if (
-        error instanceof SDKError &&
-        (error.httpStatus === 404 ||
-          (error.httpStatus === 500 &&
-            error.message?.toLowerCase().includes("key not found")))
-      ) {
+      // Cache misses are normal behavior - return null instead of throwing
+      if (error instanceof NotFoundError) {
         return null;
       }
       // Re-throw other errors (network issues, server errors, etc.)
       throw error;
     }
+
+    if (schema) {
+      return {
+        ...response,
+        value: await validateResponse(
+          schema,
+          response.value,
+          "POST /v1/cache/get",
+          ["value"]
+        ),
+      };
+    }
+    return response;
   }
 
   /**
@@ -111,34 +131,49 @@ export class CacheClient {
     dmap: string,
     key: string,
     value: any,
-    ttl?: string
+    ttl?: string,
+    options: MutationOptions = {}
   ): Promise<CachePutResponse> {
-    return this.httpClient.post<CachePutResponse>("/v1/cache/put", {
-      dmap,
-      key,
-      value,
-      ttl,
-    });
+    return this.httpClient.post<CachePutResponse>(
+      "/v1/cache/put",
+      {
+        dmap,
+        key,
+        value,
+        ttl,
+      },
+      { ...options, idempotencyKey: options.idempotencyKey ?? true }
+    );
   }
 
   /**
    * Delete a value from cache
    */
-  async delete(dmap: string, key: string): Promise<CacheDeleteResponse> {
-    return this.httpClient.post<CacheDeleteResponse>("/v1/cache/delete", {
-      dmap,
-      key,
-    });
+  async delete(
+    dmap: string,
+    key: string,
+    options: CallOptions = {}
+  ): Promise<CacheDeleteResponse> {
+    return this.httpClient.post<CacheDeleteResponse>(
+      "/v1/cache/delete",
+      {
+        dmap,
+        key,
+      },
+      { ...options, idempotent: true }
+    );
   }
 
   /**
    * Get multiple values from cache in a single request
    * Returns a map of key -> value (or null if not found)
-   * Gracefully handles 404 errors (endpoint not implemented) by returning empty results
+   * Gracefully handles 404 errors (endpoint not implemented) by returning empty results;
+   * other errors are thrown
    */
   async multiGet(
     dmap: string,
-    keys: string[]
+    keys: string[],
+    options: CallOptions = {}
   ): Promise<Map<string, any | null>> {
     try {
       if (keys.length === 0) {
@@ -150,7 +185,8 @@ export class CacheClient {
         {
           dmap,
           keys,
-        }
+        },
+        { ...options, idempotent: true }
       );
 
       // Convert array to Map
@@ -172,7 +208,7 @@ export class CacheClient {
     } catch (error) {
       // Handle 404 errors silently (endpoint not implemented on backend)
       // This is expected behavior when the backend doesn't support multiGet yet
-      if (error instanceof SDKError && error.httpStatus === 404) {
+      if (error instanceof NotFoundError) {
         // Return map with all nulls silently - caller can fall back to individual gets
         const resultMap = new Map<string, any | null>();
         keys.forEach((key) => {
@@ -180,24 +216,26 @@ export class CacheClient {
         });
         return resultMap;
       }
-
-      // Log and return empty results for other errors
-      const resultMap = new Map<string, any | null>();
-      keys.forEach((key) => {
-        resultMap.set(key, null);
-      });
-      console.error(`[CacheClient] Error in multiGet for ${dmap}:`, error);
-      return resultMap;
+      // Timeouts, rate limits, network and server errors reach the caller
+      throw error;
     }
   }
 
   /**
    * Scan keys in a distributed map, optionally matching a regex pattern
    */
-  async scan(dmap: string, match?: string): Promise<CacheScanResponse> {
-    return this.httpClient.post<CacheScanResponse>("/v1/cache/scan", {
-      dmap,
-      match,
-    });
+  async scan(
+    dmap: string,
+    match?: string,
+    options: CallOptions = {}
+  ): Promise<CacheScanResponse> {
+    return this.httpClient.post<CacheScanResponse>(
+      "/v1/cache/scan",
+      {
+        dmap,
+        match,
+      },
+      { ...options, idempotent: true }
+    );
   }
 }
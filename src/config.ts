@@ -0,0 +1,311 @@
+import type { ClientConfig } from "./index";
+import { ConfigurationError } from "./errors";
+import { HealthMonitor } from "./core/transport/HealthMonitor";
+
+export type ClientPreset = "local" | "staging" | "production";
+
+/**
+ * Where clientConfigFromEnv() reads its settings
+ */
+export interface EnvConfigOptions {
+  /**
+   * Variables to read. Default: `process.env` (empty outside Node.js)
+   */
+  env?: Record<string, string | undefined>;
+
+  /**
+   * Preset to start from, overriding DEBROS_ENV
+   */
+  preset?: ClientPreset;
+}
+
+const PRESETS: Record<ClientPreset, () => Partial<ClientConfig>> = {
+  // A gateway on this machine: fail fast, no retries hiding bugs
+  local: () => ({
+    baseURL: "http://localhost:6001",
+    timeout: 10000,
+    maxRetries: 0,
+  }),
+  staging: () => ({
+    timeout: 30000,
+    maxRetries: 3,
+    retryDelayMs: 1000,
+    circuitBreaker: {},
+  }),
+  production: () => ({
+    timeout: 30000,
+    maxRetries: 3,
+    retryDelayMs: 1000,
+    circuitBreaker: {},
+    failover: { healthCheckIntervalMs: 30000 },
+  }),
+};
+
+/**
+ * Get the settings of a named preset. Only "local" includes a gateway URL.
+ */
+export function clientPreset(name: ClientPreset): Partial<ClientConfig> {
+  if (!isPreset(name)) {
+    throw new ConfigurationError([
+      `preset must be one of ${Object.keys(PRESETS).join(", ")}, got "${name}"`,
+    ]);
+  }
+  return PRESETS[name]();
+}
+
+function isPreset(name: string): name is ClientPreset {
+  return Object.prototype.hasOwnProperty.call(PRESETS, name);
+}
+
+type EnvParser<T> = (
+  value: string,
+  name: string,
+  issues: string[]
+) => T | undefined;
+
+const parseString: EnvParser<string> = (value) => value;
+
+const parseNumber: EnvParser<number> = (value, name, issues) => {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    issues.push(`${name} must be a number, got "${value}"`);
+    return undefined;
+  }
+  return parsed;
+};
+
+const parseBoolean: EnvParser<boolean> = (value, name, issues) => {
+  const normalized = value.toLowerCase();
+  if (normalized === "true" || normalized === "1") return true;
+  if (normalized === "false" || normalized === "0") return false;
+  issues.push(`${name} must be true, false, 1 or 0, got "${value}"`);
+  return undefined;
+};
+
+const parseGatewayURLs: EnvParser<string | string[]> = (value) => {
+  const urls = value
+    .split(",")
+    .map((url) => url.trim())
+    .filter(Boolean);
+  return urls.length > 1 ? urls : urls[0];
+};
+
+/**
+ * The DEBROS_* variable and parser for each option read from the environment
+ */
+const ENV_VARIABLES: {
+  [K in keyof ClientConfig]?: [
+    name: string,
+    parse: EnvParser<ClientConfig[K]>,
+  ];
+} = {
+  baseURL: ["DEBROS_GATEWAY_URL", parseGatewayURLs],
+  apiKey: ["DEBROS_API_KEY", parseString],
+  jwt: ["DEBROS_JWT", parseString],
+  timeout: ["DEBROS_TIMEOUT_MS", parseNumber],
+  maxRetries: ["DEBROS_MAX_RETRIES", parseNumber],
+  retryDelayMs: ["DEBROS_RETRY_DELAY_MS", parseNumber],
+  debug: ["DEBROS_DEBUG", parseBoolean],
+};
+
+function setDefined<K extends keyof ClientConfig>(
+  config: Partial<ClientConfig>,
+  key: K,
+  value: ClientConfig[K] | undefined
+): void {
+  if (value !== undefined) {
+    config[key] = value;
+  }
+}
+
+function readEnvOption<K extends keyof ClientConfig>(
+  config: Partial<ClientConfig>,
+  key: K,
+  read: (name: string) => string | undefined,
+  issues: string[]
+): void {
+  const variable = ENV_VARIABLES[key];
+  if (!variable) {
+    return;
+  }
+  const [name, parse] = variable;
+  const value = read(name);
+  if (value !== undefined) {
+    setDefined(config, key, parse(value, name, issues));
+  }
+}
+
+/**
+ * Build a ClientConfig from a preset, DEBROS_* environment variables and
+ * `overrides`, in increasing order of precedence:
+ *
+ * - DEBROS_ENV: preset name (local, staging or production). There is no
+ *   default preset: without one, only the SDK's own defaults apply and a
+ *   gateway URL is required, so a missing variable never silently points
+ *   a deployment at localhost
+ * - DEBROS_GATEWAY_URL: gateway URL, or a comma-separated list for failover
+ * - DEBROS_API_KEY, DEBROS_JWT: credentials
+ * - DEBROS_TIMEOUT_MS, DEBROS_MAX_RETRIES, DEBROS_RETRY_DELAY_MS: numbers
+ * - DEBROS_DEBUG: "true"/"1" or "false"/"0"
+ *
+ * Throws a ConfigurationError naming the variable for unparsable values,
+ * and for an invalid resulting config.
+ */
+export function clientConfigFromEnv(
+  overrides: Partial<ClientConfig> = {},
+  options: EnvConfigOptions = {}
+): ClientConfig {
+  const env =
+    options.env ??
+    (typeof process !== "undefined" ? process.env : undefined) ??
+    {};
+  const read = (name: string): string | undefined => {
+    const value = env[name]?.trim();
+    return value ? value : undefined;
+  };
+  const issues: string[] = [];
+
+  const presetName = options.preset ?? read("DEBROS_ENV");
+  const config: Partial<ClientConfig> = {};
+  if (presetName !== undefined && isPreset(presetName)) {
+    Object.assign(config, clientPreset(presetName));
+    if (overrides.retryPolicy) {
+      // A custom policy replaces the preset's retry settings
+      delete config.maxRetries;
+      delete config.retryDelayMs;
+    }
+  } else if (presetName !== undefined) {
+    const expected = Object.keys(PRESETS).join(", ");
+    issues.push(`DEBROS_ENV must be one of ${expected}, got "${presetName}"`);
+  }
+
+  for (const key of Object.keys(ENV_VARIABLES) as Array<keyof ClientConfig>) {
+    readEnvOption(config, key, read, issues);
+  }
+  if (issues.length > 0) {
+    throw new ConfigurationError(issues);
+  }
+  for (const key of Object.keys(overrides) as Array<keyof ClientConfig>) {
+    setDefined(config, key, overrides[key]);
+  }
+
+  const { baseURL } = config;
+  if (baseURL === undefined) {
+    throw new ConfigurationError([
+      presetName === undefined
+        ? "DEBROS_GATEWAY_URL is required without a preset; set DEBROS_ENV=local for http://localhost:6001"
+        : `DEBROS_GATEWAY_URL is required with the "${presetName}" preset`,
+    ]);
+  }
+  const result: ClientConfig = { ...config, baseURL };
+  validateClientConfig(result);
+  return result;
+}
+
+function isNonNegative(value: number): boolean {
+  return Number.isFinite(value) && value >= 0;
+}
+
+function isPositive(value: number): boolean {
+  return Number.isFinite(value) && value > 0;
+}
+
+function checkGatewayURL(issues: string[], name: string, value: unknown): void {
+  let url: URL | undefined;
+  try {
+    url = new URL(String(value));
+  } catch {
+    // reported below
+  }
+  if (typeof value !== "string" || !url) {
+    issues.push(`${name} must be an absolute URL, got ${JSON.stringify(value)}`);
+  } else if (url.protocol !== "http:" && url.protocol !== "https:") {
+    issues.push(`${name} must use http or https, got "${value}"`);
+  }
+}
+
+/**
+ * Check a ClientConfig for invalid values and conflicting options, throwing
+ * a ConfigurationError that lists every problem. createClient() calls this.
+ */
+export function validateClientConfig(config: ClientConfig): void {
+  const issues: string[] = [];
+
+  const gateways = Array.isArray(config.baseURL)
+    ? config.baseURL
+    : config.baseURL === undefined || config.baseURL === ""
+      ? []
+      : [config.baseURL];
+  if (gateways.length === 0) {
+    issues.push("baseURL is required");
+  }
+  gateways.forEach((url, index) =>
+    checkGatewayURL(
+      issues,
+      Array.isArray(config.baseURL) ? `baseURL[${index}]` : "baseURL",
+      url
+    )
+  );
+  if (new Set(gateways).size !== gateways.length) {
+    issues.push("baseURL lists the same gateway more than once");
+  }
+
+  const positive: Array<[string, number | undefined]> = [
+    ["timeout", config.timeout],
+    ["wsConfig.timeout", config.wsConfig?.timeout],
+    ["failover.healthCheckIntervalMs", config.failover?.healthCheckIntervalMs],
+    ["failover.healthCheckTimeoutMs", config.failover?.healthCheckTimeoutMs],
+  ];
+  if (
+    config.healthMonitor &&
+    !(config.healthMonitor instanceof HealthMonitor)
+  ) {
+    positive.push(
+      ["healthMonitor.intervalMs", config.healthMonitor.intervalMs],
+      ["healthMonitor.timeoutMs", config.healthMonitor.timeoutMs]
+    );
+  }
+  for (const [name, value] of positive) {
+    if (value !== undefined && !isPositive(value)) {
+      issues.push(`${name} must be a positive number of ms, got ${value}`);
+    }
+  }
+  if (
+    config.maxRetries !== undefined &&
+    !(Number.isInteger(config.maxRetries) && config.maxRetries >= 0)
+  ) {
+    issues.push(
+      `maxRetries must be a non-negative integer, got ${config.maxRetries}`
+    );
+  }
+  const nonNegative: Array<[string, number | undefined]> = [
+    ["retryDelayMs", config.retryDelayMs],
+    ["failover.cooldownMs", config.failover?.cooldownMs],
+  ];
+  for (const [name, value] of nonNegative) {
+    if (value !== undefined && !isNonNegative(value)) {
+      issues.push(`${name} must be a non-negative number, got ${value}`);
+    }
+  }
+
+  if (
+    config.retryPolicy &&
+    (config.maxRetries !== undefined || config.retryDelayMs !== undefined)
+  ) {
+    issues.push(
+      "retryPolicy replaces maxRetries and retryDelayMs; configure retries in one place"
+    );
+  }
+  if (config.fetch && config.connectionPool) {
+    issues.push(
+      "connectionPool cannot be combined with a custom fetch; pass connectionPool.fetch as fetch instead"
+    );
+  }
+  if (config.tls?.insecure && config.tls.pinnedFingerprints?.length) {
+    issues.push("tls.insecure cannot be combined with tls.pinnedFingerprints");
+  }
+
+  if (issues.length > 0) {
+    throw new ConfigurationError(issues);
+  }
+}
@@ -1,4 +1,208 @@
-import { SDKError } from "../errors";
+import {
+  AbortError,
+  ClientClosedError,
+  NetworkError,
+  NotFoundError,
+  OfflineQueuedError,
+  SDKError,
+  TimeoutError,
+} from "../errors";
+import {
+  HttpMiddleware,
+  MiddlewareRequest,
+  composeMiddleware,
+} from "./middleware";
+import {
+  GatewayPool,
+  GatewayPoolConfig,
+  GatewayState,
+} from "./transport/GatewayPool";
+import type { IRetryPolicy } from "./interfaces/IRetryPolicy";
+import type { IAuthStrategy } from "./interfaces/IAuthStrategy";
+import { PathBasedAuthStrategy } from "./transport/AuthHeaderStrategy";
+import {
+  TLSConfiguration,
+  TLSFetch,
+  TLSOptions,
+} from "./transport/TLSConfiguration";
+import {
+  ConnectionPool,
+  ConnectionPoolConfig,
+  ConnectionPoolStats,
+} from "./transport/ConnectionPool";
+import {
+  OfflineQueue,
+  OfflineQueueConfig,
+  isOfflineError,
+} from "./transport/OfflineQueue";
+import {
+  HttpCache,
+  HttpCacheConfig,
+  HttpCacheEntry,
+} from "./transport/HttpCache";
+import {
+  HealthMonitor,
+  HealthMonitorConfig,
+  HealthMonitorTransport,
+  ServiceHealth,
+} from "./transport/HealthMonitor";
+import {
+  RequestDeduplicator,
+  DedupeStats,
+} from "./transport/RequestDeduplicator";
+import {
+  BodyEncoder,
+  BodyEncodingConfig,
+  EncodedBody,
+} from "./transport/BodyEncoder";
+import {
+  CircuitBreaker,
+  CircuitBreakerConfig,
+  CircuitSnapshot,
+} from "./transport/CircuitBreaker";
+import {
+  RateLimiter,
+  RateLimiterConfig,
+  RateLimitStats,
+} from "./transport/RateLimiter";
+import { ConsoleLogger, Logger, silentLogger } from "./logger";
+import { RequestLogger } from "./transport/RequestLogger";
+import { RequestTracer } from "./transport/RequestTracer";
+import type { Tracer } from "./tracing";
+import { ResponseSchema, validateResponse } from "./validation";
+import type { MetricsSink } from "../metrics/types";
+import { getRoute, getRoutePrefix, getServiceName } from "./routes";
+import { bodyByteLength, utf8ByteLength } from "../utils/bytes";
+import { linkSignal, sleep, toAbortError } from "../utils/abort";
+import { Deadline, DEADLINE_HEADER } from "../utils/deadline";
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  generateIdempotencyKey,
+} from "../utils/idempotency";
+import {
+  ExponentialBackoffRetryPolicy,
+  isUnprocessedError,
+} from "./transport/RequestRetryPolicy";
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "DELETE";
+
+/**
+ * Request prepared by HttpClient before a gateway is chosen
+ */
+interface PreparedRequest {
+  method: HttpMethod;
+  path: string;
+  query?: Record<string, string | number | boolean>;
+  headers: Record<string, string>;
+  body?: BodyInit | null;
+  /**
+   * How request() encoded the body, for falling back after a 415
+   */
+  encoded?: EncodedBody;
+  /**
+   * HTTP cache key (cacheable GETs only) and the cached response being revalidated
+   */
+  cacheKey?: string;
+  cached?: HttpCacheEntry;
+  signal?: AbortSignal;
+  /** Caller's deadline, reported to the gateway on every attempt */
+  deadline?: Deadline;
+  idempotent: boolean;
+  retryPolicy: IRetryPolicy | false;
+  stats: RequestStats;
+}
+
+/**
+ * Body and headers produced by request() for one body encoding
+ */
+type EncodedRequestBody = Pick<PreparedRequest, "headers" | "body" | "encoded">;
+
+/**
+ * Counters accumulated across the attempts of one request, for metrics
+ */
+interface RequestStats {
+  status: number;
+  bytesSent: number;
+  bytesReceived: number;
+}
+
+/**
+ * Options accepted by every public client method
+ */
+export interface CallOptions {
+  /**
+   * Cancel the call, including pending retries and backoff waits.
+   * The call rejects with an AbortError.
+   */
+  signal?: AbortSignal;
+  /**
+   * Set to false to always send this read, even when an identical one is
+   * already in flight. Default: true
+   */
+  dedupe?: boolean;
+  /**
+   * Set to false to bypass the HTTP cache: the GET is always sent and its
+   * response is not stored. Default: true
+   */
+  httpCache?: boolean;
+  /**
+   * Total time budget for the call, including retries and backoff waits:
+   * milliseconds from now, or a Deadline shared by several calls (see
+   * withDeadline). The remaining budget is sent to the gateway as
+   * X-Request-Timeout-Ms; expiry rejects with a DEADLINE_EXCEEDED
+   * TimeoutError. Calls with a deadline are not coalesced.
+   */
+  deadline?: number | Deadline;
+}
+
+/**
+ * Options accepted by mutating client methods
+ */
+export interface MutationOptions extends CallOptions {
+  /**
+   * Sent as the Idempotency-Key header and kept the same across retries and
+   * failover, so the gateway can drop duplicates. Generated when omitted.
+   */
+  idempotencyKey?: string;
+  /**
+   * Set to false to fail instead of joining the offline queue while the
+   * gateway is unreachable (only applies when the queue is enabled)
+   */
+  queueOffline?: boolean;
+}
+
+/**
+ * Per-request options accepted by HttpClient.request and its helpers
+ */
+export interface HttpRequestOptions extends CallOptions {
+  body?: any;
+  headers?: Record<string, string>;
+  query?: Record<string, string | number | boolean>;
+  timeout?: number; // Per-request timeout override
+  /**
+   * Mark the request as safe to repeat. Defaults to true for GET, PUT and
+   * DELETE, and for requests sent with an idempotency key; other POST
+   * requests are only retried on errors where the gateway did not process
+   * them unless marked idempotent (e.g. read-only queries).
+   */
+  idempotent?: boolean;
+  /**
+   * Override the client's retry policy for this request, or `false` to disable retries
+   */
+  retry?: IRetryPolicy | false;
+  /**
+   * Idempotency-Key header value; `true` generates one. Sent unchanged on every attempt.
+   */
+  idempotencyKey?: string | true;
+  /**
+   * Validate the parsed response body; mismatches reject with ResponseValidationError
+   */
+  schema?: ResponseSchema<any>;
+  /**
+   * Set to false to bypass the offline queue for this request
+   */
+  queueOffline?: boolean;
+}
 
 /**
  * Context provided to the onNetworkError callback
@@ -20,65 +224,341 @@ export type NetworkErrorCallback = (
 ) => void;
 
 export interface HttpClientConfig {
-  baseURL: string;
+  /**
+   * Gateway base URL, or a list of gateways for automatic failover.
+   * With several gateways the first healthy one is used until it fails.
+   */
+  baseURL: string | string[];
+  /**
+   * Failover and health probing options for multi-gateway setups
+   */
+  failover?: GatewayPoolConfig;
+  /**
+   * Circuit breaker per gateway and route prefix. While a circuit is open,
+   * requests fail fast with a CIRCUIT_OPEN SDKError instead of retrying.
+   * Disabled unless configured.
+   */
+  circuitBreaker?: CircuitBreakerConfig;
+  /**
+   * Client-side token-bucket rate limit and max-concurrency queue,
+   * globally and per service. Pass a RateLimiter instance to read its stats
+   * or share it between clients. Disabled unless configured.
+   */
+  rateLimit?: RateLimiterConfig | RateLimiter;
   timeout?: number;
+  /**
+   * Max retry attempts for the default retry policy (default: 3)
+   */
   maxRetries?: number;
+  /**
+   * Base delay for the default exponential backoff (default: 1000)
+   */
   retryDelayMs?: number;
+  /**
+   * Custom retry policy. Overrides maxRetries and retryDelayMs.
+   */
+  retryPolicy?: IRetryPolicy;
   fetch?: typeof fetch;
   /**
-   * Enable debug logging (includes full SQL queries and args). Default: false
+   * TLS settings for this client's connections (Node.js only): CA bundle,
+   * client certificates, pinned fingerprints or an insecure opt-in.
+   * Applies to the built-in fetch; ignored when a custom fetch is set.
+   */
+  tls?: TLSOptions;
+  /**
+   * Keep-alive connection pool with optional HTTP/2 (Node.js only; browsers
+   * keep using native fetch). Pass a ConnectionPool instance to read its stats
+   * or share it between clients. Cannot be combined with a custom fetch
+   * (createClient() rejects it); pass connectionPool.fetch as fetch instead.
+   */
+  connectionPool?: ConnectionPoolConfig | ConnectionPool;
+  /**
+   * Compression and MessagePack/CBOR encoding for JSON request bodies,
+   * falling back to plain JSON when the gateway answers 415
+   */
+  encoding?: BodyEncodingConfig;
+  /**
+   * Coalesce identical concurrent reads (GET, and POSTs marked idempotent) with
+   * the same body, credentials and per-call options into one network call;
+   * callers that joined another's call get their own copy of the response.
+   * Pass a RequestDeduplicator instance to read its stats. Default: true
+   */
+  dedupe?: boolean | RequestDeduplicator;
+  /**
+   * Queue db.exec, db.transaction, cache.put and pubsub.publish calls that
+   * fail because the gateway is unreachable, and replay them in order once
+   * it is healthy. Pass an OfflineQueue instance to inspect or flush it.
+   * Disabled unless configured.
+   */
+  offlineQueue?: OfflineQueueConfig | OfflineQueue;
+  /**
+   * Cache GET responses honoring ETag, Last-Modified and Cache-Control,
+   * revalidating with conditional requests. Pass an HttpCache instance to
+   * clear it or share it between clients. Disabled unless configured.
+   */
+  httpCache?: HttpCacheConfig | HttpCache;
+  /**
+   * Probe /v1/health, /v1/cache/health and /v1/network/status in the
+   * background, reporting services going up or down and optionally failing
+   * requests fast while a service is down. Pass a HealthMonitor instance to
+   * read its status or share it between clients; it keeps probing until the
+   * last of them is closed. Disabled unless configured.
+   */
+  healthMonitor?: HealthMonitorConfig | HealthMonitor;
+  /**
+   * Structured logger for SDK diagnostics. Default: silent
+   */
+  logger?: Logger;
+  /**
+   * OpenTelemetry-compatible tracer. When set, every request gets a client
+   * span and a W3C `traceparent` header.
+   */
+  tracer?: Tracer;
+  /**
+   * Metrics sink fed with request latency, errors, retries and bytes
+   * (e.g. a MetricsCollector)
+   */
+  metrics?: MetricsSink;
+  /**
+   * Include SQL statements and table queries in request logs (args are redacted).
+   * Without a custom logger this also enables console debug output. Default: false
    */
   debug?: boolean;
   /**
-   * Callback invoked on network errors (after all retries exhausted).
+   * Callback invoked on network errors (after all retries exhausted), but
+   * not for cancelled calls or an exceeded caller deadline.
    * Use this to trigger gateway failover at the application layer.
    */
   onNetworkError?: NetworkErrorCallback;
+  /**
+   * Middleware chain wrapped around every gateway request
+   * (JSON requests, uploads and binary downloads), in registration order.
+   */
+  middleware?: HttpMiddleware[];
+  /**
+   * Builds the auth headers of every request, e.g. to sign requests or use a
+   * custom header scheme. API keys and JWTs set on the client are forwarded to it.
+   * Default: PathBasedAuthStrategy (API key only for db, pubsub, proxy and cache routes)
+   */
+  auth?: IAuthStrategy;
 }
 
 /**
- * Create a fetch function with proper TLS configuration for staging certificates
- * In Node.js, we need to configure TLS to accept Let's Encrypt staging certificates
+ * Connection failures, timeouts and 5xx responses (other than cache and
+ * storage "not found" reported as 500) mean the gateway or its backend is
+ * unavailable
  */
-function createFetchWithTLSConfig(): typeof fetch {
-  // Check if we're in a Node.js environment
-  if (typeof process !== "undefined" && process.versions?.node) {
-    // For testing/staging/development: allow staging certificates
-    // Let's Encrypt staging certificates are self-signed and not trusted by default
-    const isDevelopmentOrStaging =
-      process.env.NODE_ENV !== "production" ||
-      process.env.DEBROS_ALLOW_STAGING_CERTS === "true" ||
-      process.env.DEBROS_USE_HTTPS === "true";
-
-    if (isDevelopmentOrStaging) {
-      // Allow self-signed/staging certificates
-      // WARNING: Only use this in development/testing environments
-      process.env.NODE_TLS_REJECT_UNAUTHORIZED = "0";
-    }
-  }
-  return globalThis.fetch;
+function isBackendFailure(error: unknown): boolean {
+  if (error instanceof NetworkError || error instanceof TimeoutError) {
+    return true;
+  }
+  if (error instanceof NotFoundError) {
+    return false;
+  }
+  return !(error instanceof SDKError) || error.httpStatus >= 500;
+}
+
+/**
+ * Parse a text response body: JSON when the content type says so
+ */
+function parseText(text: string, contentType: string | null | undefined): any {
+  if (contentType?.includes("application/json")) {
+    return JSON.parse(text);
+  }
+  return text;
+}
+
+/**
+ * Whether a failed call is reported to onNetworkError. Cancellations and an
+ * exceeded caller deadline say nothing about the gateway's health.
+ */
+function isReportedNetworkError(error: unknown): boolean {
+  if (error instanceof TimeoutError) {
+    return error.code !== "DEADLINE_EXCEEDED";
+  }
+  return !(error instanceof AbortError);
+}
+
+/**
+ * Fast-fail errors from an open circuit or a service marked down by the
+ * health monitor are never retried
+ */
+function isFastFail(error: unknown): boolean {
+  return (
+    error instanceof SDKError &&
+    (error.code === "CIRCUIT_OPEN" || error.code === "SERVICE_UNAVAILABLE")
+  );
 }
 
 export class HttpClient {
-  private baseURL: string;
+  private pool: GatewayPool;
+  private breaker?: CircuitBreaker;
+  private rateLimiter?: RateLimiter;
+  private connectionPool?: ConnectionPool;
+  private ownsConnectionPool = false;
+  /** Fetch bound to config.tls when neither a fetch nor a pool is set */
+  private tlsFetch?: TLSFetch;
   private timeout: number;
-  private maxRetries: number;
-  private retryDelayMs: number;
+  private retryPolicy: IRetryPolicy;
   private fetch: typeof fetch;
   private apiKey?: string;
   private jwt?: string;
-  private debug: boolean;
+  private logger: Logger;
+  private requestLogger: RequestLogger;
+  private tracer?: Tracer;
+  private requestTracer: RequestTracer;
+  private metrics?: MetricsSink;
   private onNetworkError?: NetworkErrorCallback;
+  private middlewares: HttpMiddleware[];
+  private auth: IAuthStrategy;
+  private encoder: BodyEncoder;
+  private deduplicator?: RequestDeduplicator;
+  private offlineQueue?: OfflineQueue;
+  private httpCache?: HttpCache;
+  private healthMonitor?: HealthMonitor;
+  private healthMonitorTransport?: HealthMonitorTransport;
+  private objectIds = new WeakMap<object, number>();
+  private nextObjectId = 0;
+  /** Aborted by close(), cancelling every request in flight */
+  private readonly lifetime = new AbortController();
+  private closed = false;
 
   constructor(config: HttpClientConfig) {
-    this.baseURL = config.baseURL.replace(/\/$/, "");
     this.timeout = config.timeout ?? 60000;
-    this.maxRetries = config.maxRetries ?? 3;
-    this.retryDelayMs = config.retryDelayMs ?? 1000;
-    // Use provided fetch or create one with proper TLS configuration for staging certificates
-    this.fetch = config.fetch ?? createFetchWithTLSConfig();
-    this.debug = config.debug ?? false;
+    this.retryPolicy =
+      config.retryPolicy ??
+      new ExponentialBackoffRetryPolicy(
+        config.maxRetries ?? 3,
+        config.retryDelayMs ?? 1000
+      );
+    if (config.connectionPool && !config.fetch) {
+      this.connectionPool =
+        config.connectionPool instanceof ConnectionPool
+          ? config.connectionPool
+          : new ConnectionPool({ tls: config.tls, ...config.connectionPool });
+      this.ownsConnectionPool = !(config.connectionPool instanceof ConnectionPool);
+    }
+    // Use provided fetch, the connection pool, or one bound to this client's TLS settings
+    const customFetch = config.fetch ?? this.connectionPool?.fetch;
+    if (customFetch) {
+      this.fetch = customFetch;
+    } else {
+      this.tlsFetch = TLSConfiguration.createTLSFetch(config.tls);
+      this.fetch = this.tlsFetch.fetch;
+    }
+    const gateways = Array.isArray(config.baseURL)
+      ? config.baseURL
+      : [config.baseURL];
+    this.pool = new GatewayPool(
+      gateways,
+      (baseURL, timeoutMs) => this.probeGateway(baseURL, timeoutMs),
+      config.failover
+    );
+    if (config.circuitBreaker) {
+      this.breaker = new CircuitBreaker(config.circuitBreaker);
+    }
+    if (config.rateLimit) {
+      this.rateLimiter =
+        config.rateLimit instanceof RateLimiter
+          ? config.rateLimit
+          : new RateLimiter(config.rateLimit);
+    }
+    const debug = config.debug ?? false;
+    this.logger =
+      config.logger ?? (debug ? new ConsoleLogger("debug") : silentLogger);
+    this.requestLogger = new RequestLogger(this.logger, debug);
+    this.tracer = config.tracer;
+    this.requestTracer = new RequestTracer(config.tracer);
+    this.metrics = config.metrics;
     this.onNetworkError = config.onNetworkError;
+    this.middlewares = [...(config.middleware ?? [])];
+    this.auth = config.auth ?? new PathBasedAuthStrategy();
+    this.encoder = new BodyEncoder(config.encoding);
+    if (config.dedupe !== false) {
+      this.deduplicator =
+        config.dedupe instanceof RequestDeduplicator
+          ? config.dedupe
+          : new RequestDeduplicator();
+    }
+    if (config.httpCache) {
+      this.httpCache =
+        config.httpCache instanceof HttpCache
+          ? config.httpCache
+          : new HttpCache(config.httpCache);
+    }
+    if (config.offlineQueue) {
+      this.offlineQueue =
+        config.offlineQueue instanceof OfflineQueue
+          ? config.offlineQueue
+          : new OfflineQueue(config.offlineQueue);
+      this.offlineQueue.attach({
+        send: (mutation) =>
+          this.request(mutation.method, mutation.path, {
+            body: mutation.body,
+            query: mutation.query,
+            idempotencyKey: mutation.id,
+            queueOffline: false,
+          }),
+        // Not gated: a HealthMonitor reporting the gateway down must not
+        // keep the replay probe from reaching it
+        healthCheck: async () => {
+          try {
+            await this.probeService("/v1/health", 5000);
+          } catch {
+            return false;
+          }
+          // Clear a stale "down" so the replayed mutations aren't gated
+          if (this.healthMonitor?.isDegraded()) {
+            await this.healthMonitor.check();
+          }
+          return true;
+        },
+      });
+    }
+    if (config.healthMonitor) {
+      this.healthMonitor =
+        config.healthMonitor instanceof HealthMonitor
+          ? config.healthMonitor
+          : new HealthMonitor(config.healthMonitor);
+      this.healthMonitorTransport = {
+        probe: (path, timeoutMs) => this.probeService(path, timeoutMs),
+      };
+      this.healthMonitor.attach(this.healthMonitorTransport);
+    }
+    if (config.tls?.insecure && !config.fetch) {
+      this.logger.warn(
+        "[HttpClient] TLS certificate validation disabled for this client. Do not use in production!"
+      );
+    }
+  }
+
+  /**
+   * Get the logger shared with the service clients
+   */
+  getLogger(): Logger {
+    return this.logger;
+  }
+
+  /**
+   * Get the tracer shared with the service clients, if tracing is enabled
+   */
+  getTracer(): Tracer | undefined {
+    return this.tracer;
+  }
+
+  /**
+   * Get the metrics sink shared with the service clients, if metrics are enabled
+   */
+  getMetrics(): MetricsSink | undefined {
+    return this.metrics;
+  }
+
+  /**
+   * Register a middleware. Middleware added later runs closer to fetch.
+   */
+  use(middleware: HttpMiddleware): this {
+    this.middlewares.push(middleware);
+    return this;
   }
 
   /**
@@ -90,217 +570,433 @@ export class HttpClient {
 
   setApiKey(apiKey?: string) {
     this.apiKey = apiKey;
+    this.auth.setApiKey(apiKey);
     // Don't clear JWT - allow both to coexist
   }
 
   setJwt(jwt?: string) {
     this.jwt = jwt;
+    this.auth.setJwt(jwt);
     // Don't clear API key - allow both to coexist
-    if (typeof console !== "undefined") {
-      console.log(
-        "[HttpClient] JWT set:",
-        !!jwt,
-        "API key still present:",
-        !!this.apiKey
-      );
-    }
+    this.logger.debug("[HttpClient] JWT set", {
+      jwtSet: !!jwt,
+      apiKeyPresent: !!this.apiKey,
+    });
   }
 
-  private getAuthHeaders(path: string): Record<string, string> {
-    const headers: Record<string, string> = {};
+  private getAuthToken(): string | undefined {
+    return this.jwt || this.apiKey;
+  }
 
-    // For database, pubsub, proxy, and cache operations, ONLY use API key to avoid JWT user context
-    // interfering with namespace-level authorization
-    const isDbOperation = path.includes("/v1/rqlite/");
-    const isPubSubOperation = path.includes("/v1/pubsub/");
-    const isProxyOperation = path.includes("/v1/proxy/");
-    const isCacheOperation = path.includes("/v1/cache/");
+  getApiKey(): string | undefined {
+    return this.apiKey;
+  }
 
-    // For auth operations, prefer API key over JWT to ensure proper authentication
-    const isAuthOperation = path.includes("/v1/auth/");
+  /**
+   * Get the base URL of the active gateway
+   */
+  getBaseURL(): string {
+    return this.pool.getActive();
+  }
 
-    if (
-      isDbOperation ||
-      isPubSubOperation ||
-      isProxyOperation ||
-      isCacheOperation
-    ) {
-      // For database/pubsub/proxy/cache operations: use only API key (preferred for namespace operations)
-      if (this.apiKey) {
-        headers["X-API-Key"] = this.apiKey;
-      } else if (this.jwt) {
-        // Fallback to JWT if no API key
-        headers["Authorization"] = `Bearer ${this.jwt}`;
-      }
-    } else if (isAuthOperation) {
-      // For auth operations: prefer API key over JWT (auth endpoints should use explicit API key)
-      if (this.apiKey) {
-        headers["X-API-Key"] = this.apiKey;
-      }
-      if (this.jwt) {
-        headers["Authorization"] = `Bearer ${this.jwt}`;
-      }
-    } else {
-      // For other operations: send both JWT and API key
-      if (this.jwt) {
-        headers["Authorization"] = `Bearer ${this.jwt}`;
-      }
-      if (this.apiKey) {
-        headers["X-API-Key"] = this.apiKey;
-      }
+  /**
+   * Get the health state of every configured gateway
+   */
+  getGateways(): GatewayState[] {
+    return this.pool.getGateways();
+  }
+
+  /**
+   * Get the state of every circuit seen so far (empty when the breaker is disabled)
+   */
+  getCircuitStates(): CircuitSnapshot[] {
+    return this.breaker?.getStates() ?? [];
+  }
+
+  /**
+   * Get rate limiter queue depth, in-flight requests and current rates
+   * (undefined when rate limiting is disabled)
+   */
+  getRateLimitStats(): RateLimitStats | undefined {
+    return this.rateLimiter?.getStats();
+  }
+
+  /**
+   * Get the number of coalesced reads and requests in flight
+   * (undefined when deduplication is disabled)
+   */
+  getDedupeStats(): DedupeStats | undefined {
+    return this.deduplicator?.getStats();
+  }
+
+  /**
+   * Get open sockets and queued requests of the connection pool
+   * (undefined when no pool is configured)
+   */
+  getConnectionPoolStats(): ConnectionPoolStats | undefined {
+    return this.connectionPool?.getStats();
+  }
+
+  /**
+   * Get the last known health of each monitored service
+   * (undefined when no health monitor is configured)
+   */
+  getServiceHealth(): ServiceHealth[] | undefined {
+    return this.healthMonitor?.getStatus();
+  }
+
+  /**
+   * Whether close() has been called
+   */
+  isClosed(): boolean {
+    return this.closed;
+  }
+
+  /**
+   * Signal aborted with ClientClosedError by close(), for waits between
+   * requests
+   */
+  getCloseSignal(): AbortSignal {
+    return this.lifetime.signal;
+  }
+
+  /**
+   * Shut the client down: requests in flight reject with ClientClosedError,
+   * as do all later calls. Stops gateway health checks and offline queue
+   * replays (queued mutations stay persisted), detaches from the health
+   * monitor (which stops once no client uses it) and closes the sockets of
+   * the TLS agent, and of the connection pool unless it was passed in as
+   * a shared instance.
+   */
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.lifetime.abort(new ClientClosedError());
+    this.pool.stopHealthChecks();
+    if (this.healthMonitorTransport) {
+      this.healthMonitor?.detach(this.healthMonitorTransport);
+    }
+    this.offlineQueue?.stop();
+    await this.tlsFetch?.close();
+    if (this.ownsConnectionPool) {
+      await this.connectionPool?.close();
     }
-    return headers;
   }
 
-  private getAuthToken(): string | undefined {
-    return this.jwt || this.apiKey;
+  private assertOpen(): void {
+    if (this.closed) {
+      throw new ClientClosedError();
+    }
   }
 
-  getApiKey(): string | undefined {
-    return this.apiKey;
+  /**
+   * Probe all gateways against /v1/health and fail over if the active one is down
+   */
+  async checkGatewayHealth(): Promise<GatewayState[]> {
+    return this.pool.checkHealth();
+  }
+
+  private async probeGateway(
+    baseURL: string,
+    timeoutMs: number
+  ): Promise<boolean> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const response = await this.fetch(`${baseURL}/v1/health`, {
+        method: "GET",
+        signal: controller.signal,
+      });
+      return response.ok;
+    } catch {
+      return false;
+    } finally {
+      clearTimeout(timeoutId);
+    }
   }
 
   /**
-   * Get the base URL
+   * Health monitor and offline queue probe: GET `path` on the active
+   * gateway, bypassing retries, middleware and request gating
    */
-  getBaseURL(): string {
-    return this.baseURL;
+  private async probeService(path: string, timeoutMs: number): Promise<void> {
+    const headers = await this.auth.getHeaders({ path, method: "GET" });
+    const linked = linkSignal(this.lifetime.signal, timeoutMs);
+    try {
+      const response = await this.fetch(
+        this.buildURL(this.pool.getActive(), path),
+        { method: "GET", headers, signal: linked.signal }
+      );
+      // Only the status matters
+      await response.body?.cancel();
+      if (!response.ok) {
+        throw SDKError.fromResponse(
+          response.status,
+          { error: response.statusText },
+          undefined,
+          response.headers,
+          path
+        );
+      }
+    } catch (error) {
+      if (linked.signal.aborted) {
+        throw toAbortError(linked.signal);
+      }
+      throw error instanceof SDKError ? error : NetworkError.fromError(error);
+    } finally {
+      linked.clear();
+    }
   }
 
-  async request<T = any>(
-    method: "GET" | "POST" | "PUT" | "DELETE",
+  private buildURL(
+    baseURL: string,
     path: string,
-    options: {
-      body?: any;
-      headers?: Record<string, string>;
-      query?: Record<string, string | number | boolean>;
-      timeout?: number; // Per-request timeout override
-    } = {}
-  ): Promise<T> {
-    const startTime = performance.now(); // Track request start time
-    const url = new URL(this.baseURL + path);
-    if (options.query) {
-      Object.entries(options.query).forEach(([key, value]) => {
+    query?: Record<string, string | number | boolean>
+  ): string {
+    const url = new URL(baseURL + path);
+    if (query) {
+      Object.entries(query).forEach(([key, value]) => {
         url.searchParams.append(key, String(value));
       });
     }
+    return url.toString();
+  }
 
-    const headers: Record<string, string> = {
-      "Content-Type": "application/json",
-      ...this.getAuthHeaders(path),
-      ...options.headers,
-    };
+  /**
+   * Network-level failures and 5xx responses move traffic to another gateway
+   */
+  private isGatewayFailure(error: unknown, signal?: AbortSignal): boolean {
+    if (this.pool.size < 2 || signal?.aborted) {
+      return false;
+    }
+    return isBackendFailure(error);
+  }
 
-    const controller = new AbortController();
-    const requestTimeout = options.timeout ?? this.timeout; // Use override or default
-    const timeoutId = setTimeout(() => controller.abort(), requestTimeout);
+  async request<T = any>(
+    method: HttpMethod,
+    path: string,
+    options: HttpRequestOptions = {}
+  ): Promise<T> {
+    this.assertOpen();
+    if (
+      this.offlineQueue &&
+      options.queueOffline !== false &&
+      this.offlineQueue.captures(method, path)
+    ) {
+      return this.requestOrQueue<T>(method, path, options, this.offlineQueue);
+    }
+    const key = this.dedupeKey(method, path, options);
+    if (!key || !this.deduplicator) {
+      return this.execute<T>(method, path, options);
+    }
+    // Coalesced callers share one execution; each keeps its own signal, and
+    // callers joining it get their own copy of the result
+    return this.deduplicator.run(key, options.signal, (signal) =>
+      this.execute<T>(method, path, { ...options, signal })
+    );
+  }
 
-    const fetchOptions: RequestInit = {
+  /**
+   * Send a mutation covered by the offline queue. It is queued instead when
+   * the gateway is unreachable, or when earlier mutations are still queued
+   * (so writes keep their order); the call then rejects with OfflineQueuedError.
+   */
+  private async requestOrQueue<T>(
+    method: HttpMethod,
+    path: string,
+    options: HttpRequestOptions,
+    queue: OfflineQueue
+  ): Promise<T> {
+    // The replay must reuse the key of the original attempt
+    const idempotencyKey =
+      typeof options.idempotencyKey === "string"
+        ? options.idempotencyKey
+        : generateIdempotencyKey();
+    const mutation = {
+      id: idempotencyKey,
       method,
-      headers,
-      signal: controller.signal,
+      path,
+      query: options.query,
+      body: options.body,
     };
 
-    if (options.body !== undefined) {
-      fetchOptions.body = JSON.stringify(options.body);
+    if (await queue.hasPending()) {
+      await queue.enqueue(mutation);
+      throw new OfflineQueuedError(mutation.id);
     }
-
-    // Extract and log SQL query details for rqlite operations
-    const isRqliteOperation = path.includes("/v1/rqlite/");
-    let queryDetails: string | null = null;
-    if (isRqliteOperation && options.body) {
+    try {
+      return await this.execute<T>(method, path, {
+        ...options,
+        idempotencyKey,
+      });
+    } catch (error) {
+      if (!isOfflineError(error)) {
+        throw error;
+      }
       try {
-        const body =
-          typeof options.body === "string"
-            ? JSON.parse(options.body)
-            : options.body;
-
-        if (body.sql) {
-          // Direct SQL query (query/exec endpoints)
-          queryDetails = `SQL: ${body.sql}`;
-          if (body.args && body.args.length > 0) {
-            queryDetails += ` | Args: [${body.args
-              .map((a: any) => (typeof a === "string" ? `"${a}"` : a))
-              .join(", ")}]`;
-          }
-        } else if (body.table) {
-          // Table-based query (find/find-one/select endpoints)
-          queryDetails = `Table: ${body.table}`;
-          if (body.criteria && Object.keys(body.criteria).length > 0) {
-            queryDetails += ` | Criteria: ${JSON.stringify(body.criteria)}`;
-          }
-          if (body.options) {
-            queryDetails += ` | Options: ${JSON.stringify(body.options)}`;
-          }
-          if (body.select) {
-            queryDetails += ` | Select: ${JSON.stringify(body.select)}`;
-          }
-          if (body.where) {
-            queryDetails += ` | Where: ${JSON.stringify(body.where)}`;
-          }
-          if (body.limit) {
-            queryDetails += ` | Limit: ${body.limit}`;
-          }
-          if (body.offset) {
-            queryDetails += ` | Offset: ${body.offset}`;
-          }
-        }
-      } catch (e) {
-        // Failed to parse body, ignore
+        await queue.enqueue(mutation);
+      } catch {
+        throw error;
       }
+      throw new OfflineQueuedError(mutation.id, error);
     }
+  }
 
+  /**
+   * Key shared by identical reads: method, path, query, body, headers,
+   * credentials, schema, timeout, retry policy and HTTP cache use.
+   * Undefined when the request must not be coalesced.
+   */
+  private dedupeKey(
+    method: HttpMethod,
+    path: string,
+    options: HttpRequestOptions
+  ): string | undefined {
+    const isRead =
+      method === "GET" || (method === "POST" && options.idempotent === true);
+    if (
+      !isRead ||
+      options.dedupe === false ||
+      options.idempotencyKey ||
+      options.deadline !== undefined
+    ) {
+      return undefined;
+    }
     try {
-      const result = await this.requestWithRetry(
-        url.toString(),
-        fetchOptions,
-        0,
-        startTime
+      return JSON.stringify([
+        method,
+        path,
+        options.query ?? null,
+        options.body ?? null,
+        options.headers ?? null,
+        this.apiKey ?? null,
+        this.jwt ?? null,
+        options.schema ? this.objectId(options.schema) : null,
+        options.timeout ?? null,
+        options.retry === undefined || options.retry === false
+          ? (options.retry ?? null)
+          : this.objectId(options.retry),
+        options.httpCache ?? true,
+      ]);
+    } catch {
+      // Not serializable; let the request itself report the error
+      return undefined;
+    }
+  }
+
+  /**
+   * Stable id of a schema or retry policy instance, for dedupe keys
+   */
+  private objectId(value: object): number {
+    let id = this.objectIds.get(value);
+    if (id === undefined) {
+      id = this.nextObjectId++;
+      this.objectIds.set(value, id);
+    }
+    return id;
+  }
+
+  private async execute<T>(
+    method: HttpMethod,
+    path: string,
+    options: HttpRequestOptions
+  ): Promise<T> {
+    const startTime = performance.now(); // Track request start time
+    // Headers that stay the same if the body is encoded again
+    const fixedHeaders: Record<string, string> = {};
+    if (options.idempotencyKey) {
+      fixedHeaders[IDEMPOTENCY_KEY_HEADER] =
+        options.idempotencyKey === true
+          ? generateIdempotencyKey()
+          : options.idempotencyKey;
+    }
+    const encodeBody = async (): Promise<EncodedRequestBody> => {
+      const encoded = await this.encoder.encode(options.body);
+      const headers: Record<string, string> = {
+        ...encoded.headers,
+        ...(await this.auth.getHeaders({
+          path,
+          method,
+          query: options.query,
+          body: encoded.body,
+        })),
+        ...options.headers,
+        ...fixedHeaders,
+      };
+      return { headers, body: encoded.body, encoded };
+    };
+
+    const span = this.requestTracer.startRequest(
+      method,
+      path,
+      options.body,
+      options.query
+    );
+    this.requestTracer.inject(span, fixedHeaders);
+
+    const requestTimeout = options.timeout ?? this.timeout; // Use override or default
+    const deadline = Deadline.from(options.deadline);
+    const linked = linkSignal(
+      [options.signal, this.lifetime.signal, deadline?.signal],
+      requestTimeout
+    );
+
+    const request: PreparedRequest = {
+      method,
+      path,
+      query: options.query,
+      ...(await encodeBody()),
+      signal: linked.signal,
+      deadline,
+      // The gateway drops duplicates of a request carrying an idempotency key
+      idempotent:
+        options.idempotent ?? (method !== "POST" || !!options.idempotencyKey),
+      retryPolicy: options.retry ?? this.retryPolicy,
+      cacheKey:
+        this.httpCache && method === "GET" && options.httpCache !== false
+          ? await HttpCache.key(
+              path,
+              options.query,
+              `${this.apiKey ?? ""}|${this.jwt ?? ""}`
+            )
+          : undefined,
+      stats: { status: 0, bytesSent: 0, bytesReceived: 0 },
+    };
+
+    // Extract SQL query details for rqlite operations (debug only, values redacted)
+    const queryDetails = this.requestLogger.extractQueryDetails(
+      path,
+      options.body
+    );
+
+    try {
+      let result = await this.sendCached(request, () =>
+        this.requestWithEncodingFallback(request, encodeBody, startTime)
       );
-      const duration = performance.now() - startTime;
-      if (typeof console !== "undefined") {
-        const logMessage = `[HttpClient] ${method} ${path} completed in ${duration.toFixed(
-          2
-        )}ms`;
-        if (queryDetails && this.debug) {
-          console.log(logMessage);
-          console.log(`[HttpClient]   ${queryDetails}`);
-        } else {
-          console.log(logMessage);
-        }
+      if (options.schema) {
+        result = await validateResponse(
+          options.schema,
+          result,
+          `${method} ${path}`
+        );
       }
+      const duration = performance.now() - startTime;
+      this.requestLogger.logSuccess(method, path, duration, queryDetails);
+      this.requestTracer.end(span);
+      this.recordRequestMetric(request, startTime);
       return result;
-    } catch (error) {
+    } catch (caught) {
+      const error = this.toCallError(request, caught);
       const duration = performance.now() - startTime;
-      if (typeof console !== "undefined") {
-        // For 404 errors on find-one calls, log at warn level (not error) since "not found" is expected
-        // Application layer handles these cases in try-catch blocks
-        const is404FindOne =
-          path === "/v1/rqlite/find-one" &&
-          error instanceof SDKError &&
-          error.httpStatus === 404;
-
-        if (is404FindOne) {
-          // Log as warning for visibility, but not as error since it's expected behavior
-          console.warn(
-            `[HttpClient] ${method} ${path} returned 404 after ${duration.toFixed(
-              2
-            )}ms (expected for optional lookups)`
-          );
-        } else {
-          const errorMessage = `[HttpClient] ${method} ${path} failed after ${duration.toFixed(
-            2
-          )}ms:`;
-          console.error(errorMessage, error);
-          if (queryDetails && this.debug) {
-            console.error(`[HttpClient]   ${queryDetails}`);
-          }
-        }
-      }
+      this.requestLogger.logError(method, path, duration, error, queryDetails);
+      this.requestTracer.end(span, error);
+      this.recordRequestMetric(request, startTime, error);
 
       // Call the network error callback if configured
       // This allows the app to trigger gateway failover
-      if (this.onNetworkError) {
+      if (this.onNetworkError && isReportedNetworkError(error)) {
         // Convert native errors (TypeError, AbortError) to SDKError for the callback
         const sdkError =
           error instanceof SDKError
@@ -314,57 +1010,327 @@ export class HttpClient {
           method,
           path,
           isRetry: false,
-          attempt: this.maxRetries, // All retries exhausted
+          attempt: this.getMaxRetries(request), // All retries exhausted
         });
       }
 
       throw error;
     } finally {
-      clearTimeout(timeoutId);
+      linked.clear();
+    }
+  }
+
+  /**
+   * Errors caused by the request's signal are reported as AbortError
+   * (caller cancelled) or TimeoutError (timeout elapsed)
+   */
+  private toCallError(request: PreparedRequest, error: unknown): unknown {
+    if (request.signal?.aborted) {
+      return toAbortError(request.signal);
+    }
+    return error;
+  }
+
+  /**
+   * Send a request through the middleware chain, ending in fetch
+   */
+  private dispatch(request: MiddlewareRequest): Promise<Response> {
+    const terminal = (req: MiddlewareRequest) =>
+      this.fetch(req.url, {
+        method: req.method,
+        headers: req.headers,
+        body: req.body,
+        signal: req.signal,
+      });
+    return composeMiddleware(this.middlewares, terminal)(request);
+  }
+
+  /**
+   * Wait for a rate limiter slot, then send the request. Slots are held until
+   * the response headers arrive; 429 responses slow the limiter down.
+   */
+  private async sendLimited(
+    request: PreparedRequest,
+    attempt: number
+  ): Promise<Response> {
+    if (!this.rateLimiter) {
+      return this.sendToGateway(request, attempt);
+    }
+    const service = getServiceName(request.path);
+    const release = await this.rateLimiter.acquire(service, request.signal);
+    try {
+      const response = await this.sendToGateway(request, attempt);
+      this.rateLimiter.onResponse(service, response.status);
+      return response;
+    } catch (error) {
+      if (error instanceof SDKError && error.httpStatus === 429) {
+        this.rateLimiter.onResponse(
+          service,
+          error.httpStatus,
+          error.retryAfterMs
+        );
+      }
+      throw error;
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Send a prepared request to the active gateway, failing over to the next
+   * gateway on network errors and 5xx responses. Each gateway is tried at most once.
+   */
+  private async sendToGateway(
+    request: PreparedRequest,
+    attempt: number
+  ): Promise<Response> {
+    let failovers = 0;
+    while (true) {
+      // Don't hand an already-cancelled request to fetch or middleware
+      if (request.signal?.aborted) {
+        throw toAbortError(request.signal);
+      }
+      this.healthMonitor?.assertAvailable(request.path);
+      const gateway = this.pool.getActive();
+      const routePrefix = getRoutePrefix(request.path);
+      try {
+        this.breaker?.acquire(gateway, routePrefix);
+      } catch (error) {
+        // Not sent, so another gateway may take it
+        if (this.pool.size < 2 || failovers >= this.pool.size - 1) {
+          throw error;
+        }
+        failovers++;
+        this.pool.reportFailure(gateway);
+        continue;
+      }
+
+      request.stats.bytesSent += bodyByteLength(request.body);
+      request.stats.status = 0; // set once a response arrives
+      try {
+        const response = await this.dispatch({
+          method: request.method,
+          path: request.path,
+          url: this.buildURL(gateway, request.path, request.query),
+          headers: request.deadline
+            ? {
+                ...request.headers,
+                [DEADLINE_HEADER]: String(request.deadline.remaining()),
+              }
+            : { ...request.headers },
+          body: request.body,
+          signal: request.signal,
+          attempt,
+        });
+        request.stats.status = response.status;
+
+        const notModified = response.status === 304 && !!request.cached;
+        if (!response.ok && !notModified) {
+          let body: any;
+          try {
+            body = await response.json();
+          } catch {
+            body = { error: response.statusText };
+          }
+          throw SDKError.fromResponse(
+            response.status,
+            body,
+            undefined,
+            response.headers,
+            request.path
+          );
+        }
+
+        this.pool.reportSuccess(gateway);
+        this.breaker?.recordSuccess(gateway, routePrefix);
+        return response;
+      } catch (caught) {
+        const error = this.classifyError(request, caught);
+        this.recordCircuitOutcome(request, gateway, routePrefix, error);
+        if (!this.isGatewayFailure(error, request.signal)) {
+          if (error instanceof SDKError) {
+            // The gateway answered, so it is reachable
+            this.pool.reportSuccess(gateway);
+          }
+          throw error;
+        }
+        const next = this.pool.reportFailure(gateway);
+        // Only resend non-idempotent requests when the failed gateway did not process them
+        const canResend = request.idempotent || isUnprocessedError(error);
+        if (!canResend || failovers >= this.pool.size - 1) {
+          throw error;
+        }
+        failovers++;
+        this.logger.warn("[HttpClient] Gateway failed, failing over", {
+          method: request.method,
+          path: request.path,
+          from: gateway,
+          to: next,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  /**
+   * Turn a failed attempt into a typed SDKError: cancellation and timeouts
+   * from the request signal, NetworkError for native fetch failures
+   */
+  private classifyError(request: PreparedRequest, error: unknown): SDKError {
+    if (request.signal?.aborted) {
+      return toAbortError(request.signal);
+    }
+    if (error instanceof SDKError) {
+      return error;
+    }
+    return NetworkError.fromError(error);
+  }
+
+  /**
+   * Feed a failed attempt to the circuit breaker: 4xx responses show the
+   * backend is up, network errors, timeouts and 5xx count as failures
+   */
+  private recordCircuitOutcome(
+    request: PreparedRequest,
+    gateway: string,
+    routePrefix: string,
+    error: unknown
+  ): void {
+    if (!this.breaker) return;
+    if (error instanceof AbortError) {
+      this.breaker.recordCancelled(gateway, routePrefix);
+    } else if (isBackendFailure(error)) {
+      this.breaker.recordFailure(gateway, routePrefix);
+    } else {
+      this.breaker.recordSuccess(gateway, routePrefix);
+    }
+  }
+
+  /**
+   * Serve a cacheable GET from the HTTP cache while it is fresh; otherwise
+   * send it, with conditional headers when a stale response is cached
+   */
+  private async sendCached(
+    request: PreparedRequest,
+    send: () => Promise<any>
+  ): Promise<any> {
+    if (!request.cacheKey || !this.httpCache) {
+      return send();
+    }
+    const cached = await this.httpCache.lookup(request.cacheKey);
+    if (cached?.fresh) {
+      return parseText(cached.entry.body, cached.entry.contentType);
+    }
+    if (cached) {
+      request.cached = cached.entry;
+      Object.assign(
+        request.headers,
+        this.httpCache.conditionalHeaders(cached.entry)
+      );
+    }
+    return send();
+  }
+
+  /**
+   * Send a request; when the gateway rejects the body encoding with 415,
+   * downgrade it (MessagePack/CBOR to JSON, then uncompressed) and resend
+   */
+  private async requestWithEncodingFallback(
+    request: PreparedRequest,
+    encodeBody: () => Promise<EncodedRequestBody>,
+    startTime: number
+  ): Promise<any> {
+    while (true) {
+      try {
+        return await this.requestWithRetry(request, 0, startTime);
+      } catch (error) {
+        const encoded = request.encoded;
+        if (!encoded || !this.encoder.fallback(encoded, error)) {
+          throw error;
+        }
+        this.logger.warn(
+          "[HttpClient] Gateway rejected body encoding, falling back",
+          {
+            method: request.method,
+            path: request.path,
+            format: encoded.format,
+            compression: encoded.compression,
+          }
+        );
+        Object.assign(request, await encodeBody());
+      }
     }
   }
 
   private async requestWithRetry(
-    url: string,
-    options: RequestInit,
+    request: PreparedRequest,
     attempt: number = 0,
     startTime?: number // Track start time for timing across retries
   ): Promise<any> {
     try {
-      const response = await this.fetch(url, options);
+      const response = await this.sendLimited(request, attempt);
 
-      if (!response.ok) {
-        let body: any;
-        try {
-          body = await response.json();
-        } catch {
-          body = { error: response.statusText };
-        }
-        throw SDKError.fromResponse(response.status, body);
+      if (response.status === 304 && request.cached && this.httpCache) {
+        const entry = await this.httpCache.revalidated(
+          request.cacheKey!,
+          request.cached,
+          response.headers
+        );
+        return parseText(entry.body, entry.contentType);
       }
 
       // Request succeeded - return response
       const contentType = response.headers.get("content-type");
-      if (contentType?.includes("application/json")) {
-        return response.json();
+      if (BodyEncoder.isBinary(contentType)) {
+        const bytes = await response.arrayBuffer();
+        request.stats.bytesReceived += bytes.byteLength;
+        return this.encoder.decode(bytes, contentType);
+      }
+      const text = await response.text();
+      const contentLength = response.headers.get("content-length");
+      request.stats.bytesReceived += contentLength
+        ? Number(contentLength)
+        : utf8ByteLength(text);
+
+      if (request.cacheKey && this.httpCache && response.status === 200) {
+        await this.httpCache.save(request.cacheKey, response.headers, text);
       }
-      return response.text();
+      return parseText(text, contentType);
     } catch (error) {
-      const isRetryableError =
-        error instanceof SDKError &&
-        [408, 429, 500, 502, 503, 504].includes(error.httpStatus);
-
-      // Retry on same gateway for retryable HTTP errors
-      if (isRetryableError && attempt < this.maxRetries) {
-        if (typeof console !== "undefined") {
-          console.warn(
-            `[HttpClient] Retrying request (attempt ${attempt + 1}/${this.maxRetries})`
-          );
-        }
-        await new Promise((resolve) =>
-          setTimeout(resolve, this.retryDelayMs * (attempt + 1))
+      const policy = request.retryPolicy;
+      const shouldRetry =
+        policy !== false &&
+        !request.signal?.aborted &&
+        !isFastFail(error) &&
+        policy.shouldRetry(error, attempt, {
+          method: request.method,
+          path: request.path,
+          idempotent: request.idempotent,
+        });
+      const delayMs = shouldRetry ? policy.getDelay(attempt, error) : 0;
+
+      // Retry on the active gateway according to the retry policy, unless
+      // the backoff alone would outlast the caller's deadline
+      if (
+        shouldRetry &&
+        !(request.deadline && delayMs >= request.deadline.remaining())
+      ) {
+        this.requestLogger.logRetry(
+          request.method,
+          request.path,
+          attempt + 1,
+          policy.getMaxRetries(),
+          delayMs,
+          error
         );
-        return this.requestWithRetry(url, options, attempt + 1, startTime);
+        this.metrics?.recordRetry({
+          service: getServiceName(request.path),
+          route: getRoute(request.path),
+          method: request.method,
+          attempt: attempt + 1,
+        });
+        await sleep(delayMs, request.signal);
+        return this.requestWithRetry(request, attempt + 1, startTime);
       }
 
       // All retries exhausted - throw error for app to handle
@@ -372,9 +1338,36 @@ export class HttpClient {
     }
   }
 
+  /**
+   * Report a finished request to the metrics sink
+   */
+  private recordRequestMetric(
+    request: PreparedRequest,
+    startTime: number,
+    error?: unknown
+  ): void {
+    if (!this.metrics) return;
+    this.metrics.recordRequest({
+      service: getServiceName(request.path),
+      route: getRoute(request.path),
+      method: request.method,
+      status: request.stats.status,
+      durationMs: performance.now() - startTime,
+      error: error !== undefined,
+      bytesSent: request.stats.bytesSent,
+      bytesReceived: request.stats.bytesReceived,
+    });
+  }
+
+  private getMaxRetries(request: PreparedRequest): number {
+    return request.retryPolicy === false
+      ? 0
+      : request.retryPolicy.getMaxRetries();
+  }
+
   async get<T = any>(
     path: string,
-    options?: Omit<Parameters<typeof this.request>[2], "body">
+    options?: Omit<HttpRequestOptions, "body">
   ): Promise<T> {
     return this.request<T>("GET", path, options);
   }
@@ -382,7 +1375,7 @@ export class HttpClient {
   async post<T = any>(
     path: string,
     body?: any,
-    options?: Omit<Parameters<typeof this.request>[2], "body">
+    options?: Omit<HttpRequestOptions, "body">
   ): Promise<T> {
     return this.request<T>("POST", path, { ...options, body });
   }
@@ -390,14 +1383,14 @@ export class HttpClient {
   async put<T = any>(
     path: string,
     body?: any,
-    options?: Omit<Parameters<typeof this.request>[2], "body">
+    options?: Omit<HttpRequestOptions, "body">
   ): Promise<T> {
     return this.request<T>("PUT", path, { ...options, body });
   }
 
   async delete<T = any>(
     path: string,
-    options?: Omit<Parameters<typeof this.request>[2], "body">
+    options?: Omit<HttpRequestOptions, "body">
   ): Promise<T> {
     return this.request<T>("DELETE", path, options);
   }
@@ -409,57 +1402,58 @@ export class HttpClient {
   async uploadFile<T = any>(
     path: string,
     formData: FormData,
-    options?: {
-      timeout?: number;
-    }
+    options?: Pick<
+      HttpRequestOptions,
+      "timeout" | "idempotent" | "retry" | "signal" | "deadline"
+    >
   ): Promise<T> {
+    this.assertOpen();
     const startTime = performance.now(); // Track upload start time
-    const url = new URL(this.baseURL + path);
     const headers: Record<string, string> = {
-      ...this.getAuthHeaders(path),
+      ...(await this.auth.getHeaders({ path, method: "POST", body: formData })),
       // Don't set Content-Type - browser will set it with boundary
     };
 
-    const controller = new AbortController();
+    const span = this.requestTracer.startRequest("POST", path);
+    this.requestTracer.inject(span, headers);
+
     const requestTimeout = options?.timeout ?? this.timeout * 5; // 5x timeout for uploads
-    const timeoutId = setTimeout(() => controller.abort(), requestTimeout);
+    const deadline = Deadline.from(options?.deadline);
+    const linked = linkSignal(
+      [options?.signal, this.lifetime.signal, deadline?.signal],
+      requestTimeout
+    );
 
-    const fetchOptions: RequestInit = {
+    const request: PreparedRequest = {
       method: "POST",
+      path,
       headers,
       body: formData,
-      signal: controller.signal,
+      signal: linked.signal,
+      deadline,
+      idempotent: options?.idempotent ?? false,
+      retryPolicy: options?.retry ?? this.retryPolicy,
+      stats: { status: 0, bytesSent: 0, bytesReceived: 0 },
     };
 
     try {
-      const result = await this.requestWithRetry(
-        url.toString(),
-        fetchOptions,
-        0,
-        startTime
-      );
+      const result = await this.requestWithRetry(request, 0, startTime);
       const duration = performance.now() - startTime;
-      if (typeof console !== "undefined") {
-        console.log(
-          `[HttpClient] POST ${path} (upload) completed in ${duration.toFixed(
-            2
-          )}ms`
-        );
-      }
+      this.requestLogger.logSuccess("POST", path, duration, { upload: true });
+      this.requestTracer.end(span);
+      this.recordRequestMetric(request, startTime);
       return result;
-    } catch (error) {
+    } catch (caught) {
+      const error = this.toCallError(request, caught);
       const duration = performance.now() - startTime;
-      if (typeof console !== "undefined") {
-        console.error(
-          `[HttpClient] POST ${path} (upload) failed after ${duration.toFixed(
-            2
-          )}ms:`,
-          error
-        );
-      }
+      this.requestLogger.logError("POST", path, duration, error, {
+        upload: true,
+      });
+      this.requestTracer.end(span, error);
+      this.recordRequestMetric(request, startTime, error);
 
       // Call the network error callback if configured
-      if (this.onNetworkError) {
+      if (this.onNetworkError && isReportedNetworkError(error)) {
         const sdkError =
           error instanceof SDKError
             ? error
@@ -472,49 +1466,64 @@ export class HttpClient {
           method: "POST",
           path,
           isRetry: false,
-          attempt: this.maxRetries,
+          attempt: this.getMaxRetries(request),
         });
       }
 
       throw error;
     } finally {
-      clearTimeout(timeoutId);
+      linked.clear();
     }
   }
 
   /**
-   * Get a binary response (returns Response object for streaming)
+   * Get a binary response (returns Response object for streaming).
+   * The signal also cancels reading the response body.
    */
-  async getBinary(path: string): Promise<Response> {
-    const url = new URL(this.baseURL + path);
+  async getBinary(path: string, options: CallOptions = {}): Promise<Response> {
+    this.assertOpen();
     const headers: Record<string, string> = {
-      ...this.getAuthHeaders(path),
+      ...(await this.auth.getHeaders({ path, method: "GET" })),
     };
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.timeout * 5); // 5x timeout for downloads
+    const startTime = performance.now();
+    const span = this.requestTracer.startRequest("GET", path);
+    this.requestTracer.inject(span, headers);
 
-    const fetchOptions: RequestInit = {
+    const deadline = Deadline.from(options.deadline);
+    const linked = linkSignal(
+      [options.signal, this.lifetime.signal, deadline?.signal],
+      this.timeout * 5 // 5x timeout for downloads
+    );
+
+    const request: PreparedRequest = {
       method: "GET",
+      path,
       headers,
-      signal: controller.signal,
+      signal: linked.signal,
+      deadline,
+      idempotent: true,
+      retryPolicy: false,
+      stats: { status: 0, bytesSent: 0, bytesReceived: 0 },
     };
 
     try {
-      const response = await this.fetch(url.toString(), fetchOptions);
-      if (!response.ok) {
-        clearTimeout(timeoutId);
-        const errorBody = await response.json().catch(() => ({
-          error: response.statusText,
-        }));
-        throw SDKError.fromResponse(response.status, errorBody);
-      }
+      const response = await this.sendLimited(request, 0);
+      // The body is streamed to the caller; count the advertised size
+      request.stats.bytesReceived = Number(
+        response.headers.get("content-length") ?? 0
+      );
+      this.requestTracer.end(span);
+      this.recordRequestMetric(request, startTime);
       return response;
-    } catch (error) {
-      clearTimeout(timeoutId);
+    } catch (caught) {
+      const error = this.toCallError(request, caught);
+      linked.clear();
+      this.requestTracer.end(span, error);
+      this.recordRequestMetric(request, startTime, error);
 
       // Call the network error callback if configured
-      if (this.onNetworkError) {
+      if (this.onNetworkError && isReportedNetworkError(error)) {
         const sdkError =
           error instanceof SDKError
             ? error
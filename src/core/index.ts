@@ -1,10 +1,29 @@
-export { HttpClient, type HttpClientConfig, type NetworkErrorCallback, type NetworkErrorContext } from "./http";
+export { HttpClient, type CallOptions, type MutationOptions, type HttpClientConfig, type HttpMethod, type HttpRequestOptions, type NetworkErrorCallback, type NetworkErrorContext } from "./http";
+export { composeMiddleware, type HttpMiddleware, type MiddlewareNext, type MiddlewareRequest } from "./middleware";
 export { WSClient, type WSClientConfig } from "./ws";
 export type { IHttpTransport, RequestOptions } from "./interfaces/IHttpTransport";
 export type { IWebSocketClient } from "./interfaces/IWebSocketClient";
 export type { IAuthStrategy, RequestContext } from "./interfaces/IAuthStrategy";
-export type { IRetryPolicy } from "./interfaces/IRetryPolicy";
-export { PathBasedAuthStrategy } from "./transport/AuthHeaderStrategy";
-export { ExponentialBackoffRetryPolicy } from "./transport/RequestRetryPolicy";
-export { RequestLogger } from "./transport/RequestLogger";
-export { TLSConfiguration } from "./transport/TLSConfiguration";
+export type { IRetryPolicy, RetryContext } from "./interfaces/IRetryPolicy";
+export { PathBasedAuthStrategy, type AuthPolicy, type AuthRule, type PathBasedAuthStrategyOptions } from "./transport/AuthHeaderStrategy";
+export { ExponentialBackoffRetryPolicy, isUnprocessedError, type ExponentialBackoffOptions } from "./transport/RequestRetryPolicy";
+export { RequestLogger, redactHeaders, redactUrl } from "./transport/RequestLogger";
+export { SpanKind, SpanStatusCode, formatTraceparent, finishSpan, setSpanAttributes, type Tracer, type TraceSpan, type TraceSpanContext, type SpanAttributes, type SpanAttributeValue } from "./tracing";
+export { getServiceName, getRoutePrefix, getRoute, type ServiceName } from "./routes";
+export { RequestTracer } from "./transport/RequestTracer";
+export { validateResponse, validateEach, type ResponseSchema, type SchemaOptions, type StandardSchemaV1, type SafeParseSchema } from "./validation";
+export { ConsoleLogger, silentLogger, type Logger, type LogLevel, type LogFields } from "./logger";
+export {
+  TLSConfiguration,
+  type TLSFetch,
+  type TLSOptions,
+} from "./transport/TLSConfiguration";
+export { ConnectionPool, type ConnectionPoolConfig, type ConnectionPoolCounts, type ConnectionPoolStats } from "./transport/ConnectionPool";
+export { BodyEncoder, type BodyEncodingConfig, type BodyFormat, type EncodedBody } from "./transport/BodyEncoder";
+export { RequestDeduplicator, type DedupeStats } from "./transport/RequestDeduplicator";
+export { HttpCache, MemoryHttpCacheStore, StorageHttpCacheStore, type HttpCacheConfig, type HttpCacheEntry, type HttpCacheStore } from "./transport/HttpCache";
+export { OfflineQueue, isOfflineError, type OfflineQueueConfig, type OfflineQueueTransport, type QueuedMutation } from "./transport/OfflineQueue";
+export { HealthMonitor, type HealthMonitorConfig, type HealthMonitorTransport, type HealthProbe, type HealthStatus, type ServiceHealth, type ServiceHealthChange } from "./transport/HealthMonitor";
+export { GatewayPool, type GatewayPoolConfig, type GatewayState, type GatewayProbe } from "./transport/GatewayPool";
+export { CircuitBreaker, type CircuitBreakerConfig, type CircuitSnapshot, type CircuitState, type CircuitStateChange } from "./transport/CircuitBreaker";
+export { RateLimiter, type RateLimiterConfig, type RateLimitOptions, type RateLimitRelease, type RateLimitScopeStats, type RateLimitStats } from "./transport/RateLimiter";
@@ -4,6 +4,12 @@
 export interface RequestContext {
   path: string;
   method: string;
+  query?: Record<string, string | number | boolean>;
+  /**
+   * Body exactly as it will be sent (serialized JSON, FormData, or none),
+   * e.g. for request signing
+   */
+  body?: BodyInit | null;
 }
 
 /**
@@ -12,9 +18,12 @@ export interface RequestContext {
  */
 export interface IAuthStrategy {
   /**
-   * Get authentication headers for a request
+   * Get authentication headers for a request.
+   * May be async, e.g. to sign the request with Web Crypto.
    */
-  getHeaders(context: RequestContext): Record<string, string>;
+  getHeaders(
+    context: RequestContext
+  ): Record<string, string> | Promise<Record<string, string>>;
 
   /**
    * Set API key
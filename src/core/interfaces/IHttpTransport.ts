@@ -5,6 +5,7 @@ export interface RequestOptions {
   headers?: Record<string, string>;
   query?: Record<string, string | number | boolean>;
   timeout?: number;
+  signal?: AbortSignal;
 }
 
 /**
@@ -38,13 +39,13 @@ export interface IHttpTransport {
   uploadFile<T = any>(
     path: string,
     formData: FormData,
-    options?: { timeout?: number }
+    options?: { timeout?: number; signal?: AbortSignal }
   ): Promise<T>;
 
   /**
    * Get binary response (returns Response object for streaming)
    */
-  getBinary(path: string): Promise<Response>;
+  getBinary(path: string, options?: { signal?: AbortSignal }): Promise<Response>;
 
   /**
    * Get base URL
@@ -1,3 +1,17 @@
+/**
+ * Request information available to retry decisions
+ */
+export interface RetryContext {
+  method: string;
+  path: string;
+  /**
+   * Whether the request is safe to repeat.
+   * GET, PUT and DELETE are idempotent by default; POST only when marked
+   * or sent with an idempotency key.
+   */
+  idempotent: boolean;
+}
+
 /**
  * Retry policy interface
  * Provides abstraction for retry logic and backoff strategies
@@ -6,12 +20,12 @@ export interface IRetryPolicy {
   /**
    * Determine if request should be retried
    */
-  shouldRetry(error: any, attempt: number): boolean;
+  shouldRetry(error: any, attempt: number, context?: RetryContext): boolean;
 
   /**
    * Get delay before next retry attempt (in milliseconds)
    */
-  getDelay(attempt: number): number;
+  getDelay(attempt: number, error?: any): number;
 
   /**
    * Get maximum number of retry attempts
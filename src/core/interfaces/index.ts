@@ -1,4 +1,4 @@
 export type { IHttpTransport, RequestOptions } from "./IHttpTransport";
 export type { IWebSocketClient } from "./IWebSocketClient";
 export type { IAuthStrategy, RequestContext } from "./IAuthStrategy";
-export type { IRetryPolicy } from "./IRetryPolicy";
+export type { IRetryPolicy, RetryContext } from "./IRetryPolicy";
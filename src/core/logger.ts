@@ -0,0 +1,88 @@
+/**
+ * Log severity levels, in increasing order
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * Structured fields attached to a log entry
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Leveled, structured logger.
+ * Compatible with pino/winston style loggers via a thin adapter.
+ *
+ * @example
+ * ```ts
+ * const logger: Logger = {
+ *   debug: (msg, fields) => pino.debug(fields, msg),
+ *   info: (msg, fields) => pino.info(fields, msg),
+ *   warn: (msg, fields) => pino.warn(fields, msg),
+ *   error: (msg, fields) => pino.error(fields, msg),
+ * };
+ * ```
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+const noop = () => {};
+
+/**
+ * Logger that discards everything (SDK default)
+ */
+export const silentLogger: Logger = {
+  debug: noop,
+  info: noop,
+  warn: noop,
+  error: noop,
+};
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
+
+/**
+ * Logger writing to the console, filtered by minimum level
+ */
+export class ConsoleLogger implements Logger {
+  private readonly minLevel: number;
+
+  constructor(level: LogLevel = "info") {
+    this.minLevel = LEVEL_ORDER[level];
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write("debug", message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write("info", message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write("warn", message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write("error", message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields?: LogFields): void {
+    if (typeof console === "undefined" || LEVEL_ORDER[level] < this.minLevel) {
+      return;
+    }
+    const method = level === "debug" ? console.debug : console[level];
+    if (fields && Object.keys(fields).length > 0) {
+      method(message, fields);
+    } else {
+      method(message);
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import type { HttpMethod } from "./http";
+
+/**
+ * Outgoing request as seen by middleware.
+ * Middleware may mutate it or pass a modified copy to `next`.
+ */
+export interface MiddlewareRequest {
+  method: HttpMethod;
+  /** Gateway path including the leading slash, e.g. "/v1/rqlite/query" */
+  path: string;
+  /** Fully resolved URL including query string */
+  url: string;
+  headers: Record<string, string>;
+  body?: BodyInit | null;
+  signal?: AbortSignal;
+  /** Zero-based attempt number (increments on retries) */
+  attempt: number;
+}
+
+/**
+ * Invoke the rest of the chain (and ultimately fetch)
+ */
+export type MiddlewareNext = (request: MiddlewareRequest) => Promise<Response>;
+
+/**
+ * HTTP middleware: request -> next -> response.
+ *
+ * @example
+ * ```ts
+ * const tracing: HttpMiddleware = async (req, next) => {
+ *   req.headers["X-Request-Id"] = crypto.randomUUID();
+ *   return next(req);
+ * };
+ * ```
+ */
+export type HttpMiddleware = (
+  request: MiddlewareRequest,
+  next: MiddlewareNext
+) => Promise<Response>;
+
+/**
+ * Compose middleware into a single handler ending in `terminal`.
+ * Middleware run in registration order; the first one registered is outermost.
+ */
+export function composeMiddleware(
+  middlewares: HttpMiddleware[],
+  terminal: MiddlewareNext
+): MiddlewareNext {
+  return middlewares.reduceRight<MiddlewareNext>(
+    (next, middleware) => (request) => middleware(request, next),
+    terminal
+  );
+}
@@ -0,0 +1,67 @@
+/**
+ * Gateway service families, keyed by route prefix
+ */
+export type ServiceName =
+  | "rqlite"
+  | "cache"
+  | "pubsub"
+  | "storage"
+  | "functions"
+  | "auth"
+  | "network"
+  | "proxy"
+  | "health"
+  | "other";
+
+const SERVICE_PREFIXES: Array<{ prefix: string; service: ServiceName }> = [
+  { prefix: "/v1/rqlite/", service: "rqlite" },
+  { prefix: "/v1/cache/", service: "cache" },
+  { prefix: "/v1/pubsub/", service: "pubsub" },
+  { prefix: "/v1/storage/", service: "storage" },
+  { prefix: "/v1/invoke/", service: "functions" },
+  { prefix: "/v1/auth/", service: "auth" },
+  { prefix: "/v1/network/", service: "network" },
+  { prefix: "/v1/proxy/", service: "proxy" },
+  { prefix: "/v1/health", service: "health" },
+];
+
+/**
+ * Get the service a gateway path belongs to
+ */
+export function getServiceName(path: string): ServiceName {
+  for (const { prefix, service } of SERVICE_PREFIXES) {
+    if (path.includes(prefix)) {
+      return service;
+    }
+  }
+  return "other";
+}
+
+/**
+ * Get the route prefix (endpoint family) of a gateway path, e.g. "/v1/rqlite/"
+ */
+export function getRoutePrefix(path: string): string {
+  for (const { prefix } of SERVICE_PREFIXES) {
+    if (path.includes(prefix)) {
+      return prefix;
+    }
+  }
+  return "/";
+}
+
+/**
+ * Get a low-cardinality route for a path by dropping the query string and
+ * identifiers (CIDs, function names) that follow the endpoint name
+ */
+export function getRoute(path: string): string {
+  const withoutQuery = path.split("?")[0];
+  if (withoutQuery.startsWith("/v1/storage/")) {
+    // /v1/storage/status/:cid -> /v1/storage/status
+    return withoutQuery.split("/").slice(0, 4).join("/");
+  }
+  if (withoutQuery.includes("/v1/invoke/")) {
+    // /v1/invoke/:namespace/:function -> /v1/invoke
+    return "/v1/invoke";
+  }
+  return withoutQuery;
+}
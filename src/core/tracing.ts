@@ -0,0 +1,106 @@
+/**
+ * Span attribute value (OpenTelemetry compatible)
+ */
+export type SpanAttributeValue = string | number | boolean;
+
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+/**
+ * Span kinds, numerically identical to OpenTelemetry's SpanKind
+ */
+export const SpanKind = {
+  INTERNAL: 0,
+  SERVER: 1,
+  CLIENT: 2,
+  PRODUCER: 3,
+  CONSUMER: 4,
+} as const;
+
+/**
+ * Span status codes, numerically identical to OpenTelemetry's SpanStatusCode
+ */
+export const SpanStatusCode = {
+  UNSET: 0,
+  OK: 1,
+  ERROR: 2,
+} as const;
+
+/**
+ * Identifiers of a span, used for W3C trace context propagation
+ */
+export interface TraceSpanContext {
+  traceId: string;
+  spanId: string;
+  traceFlags: number;
+}
+
+/**
+ * Minimal span API. An OpenTelemetry `Span` satisfies this interface.
+ */
+export interface TraceSpan {
+  spanContext(): TraceSpanContext;
+  setAttribute(key: string, value: SpanAttributeValue): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error | string): void;
+  end(): void;
+}
+
+/**
+ * Minimal tracer API. An OpenTelemetry `Tracer`
+ * (e.g. `trace.getTracer("debros")`) can be passed directly.
+ */
+export interface Tracer {
+  startSpan(
+    name: string,
+    options?: { kind?: number; attributes?: SpanAttributes }
+  ): TraceSpan;
+}
+
+/**
+ * Format a W3C `traceparent` header for a span.
+ * Returns undefined for invalid (e.g. non-recording no-op) span contexts.
+ */
+export function formatTraceparent(span: TraceSpan): string | undefined {
+  const { traceId, spanId, traceFlags } = span.spanContext();
+  const valid =
+    /^[0-9a-f]{32}$/.test(traceId) &&
+    /^[0-9a-f]{16}$/.test(spanId) &&
+    !/^0+$/.test(traceId) &&
+    !/^0+$/.test(spanId);
+  if (!valid) {
+    return undefined;
+  }
+  const flags = (traceFlags & 0xff).toString(16).padStart(2, "0");
+  return `00-${traceId}-${spanId}-${flags}`;
+}
+
+/**
+ * Set the defined attributes on a span
+ */
+export function setSpanAttributes(
+  span: TraceSpan,
+  attributes: SpanAttributes
+): void {
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value !== undefined) {
+      span.setAttribute(key, value);
+    }
+  }
+}
+
+/**
+ * End a span with OK status, or ERROR status and the recorded exception
+ */
+export function finishSpan(span: TraceSpan | undefined, error?: unknown): void {
+  if (!span) return;
+  if (error !== undefined) {
+    span.recordException(error instanceof Error ? error : String(error));
+    span.setStatus({
+      code: SpanStatusCode.ERROR,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  } else {
+    span.setStatus({ code: SpanStatusCode.OK });
+  }
+  span.end();
+}
@@ -1,9 +1,51 @@
 import type { IAuthStrategy, RequestContext } from "../interfaces/IAuthStrategy";
 
 /**
- * Authentication type for different operations
+ * Which credentials a route receives:
+ * - "api-key-only": API key, or the JWT if no API key is set
+ * - "jwt-only": JWT, or the API key if no JWT is set
+ * - "both": every credential that is set
+ * - "none": no credentials
  */
-type AuthType = "api-key-only" | "api-key-preferred" | "jwt-preferred" | "both";
+export type AuthPolicy =
+  | "api-key-only"
+  | "jwt-only"
+  | "both"
+  | "none";
+
+/**
+ * Route rule; string patterns match anywhere in the path
+ */
+export interface AuthRule {
+  pattern: string | RegExp;
+  policy: AuthPolicy;
+}
+
+export interface PathBasedAuthStrategyOptions {
+  /**
+   * Rules checked in order before the built-in ones; the first match wins
+   */
+  rules?: AuthRule[];
+
+  /**
+   * Policy for paths no rule matches. Default: "both"
+   */
+  defaultPolicy?: AuthPolicy;
+}
+
+/**
+ * Built-in rules
+ */
+const DEFAULT_AUTH_RULES: AuthRule[] = [
+  // Database, PubSub, Proxy, Cache: only the API key, so a JWT user context
+  // doesn't interfere with namespace-level authorization
+  { pattern: "/v1/rqlite/", policy: "api-key-only" },
+  { pattern: "/v1/pubsub/", policy: "api-key-only" },
+  { pattern: "/v1/proxy/", policy: "api-key-only" },
+  { pattern: "/v1/cache/", policy: "api-key-only" },
+  // Auth operations: API key and JWT
+  { pattern: "/v1/auth/", policy: "both" },
+];
 
 /**
  * Path-based authentication strategy
@@ -12,23 +54,18 @@ type AuthType = "api-key-only" | "api-key-preferred" | "jwt-preferred" | "both";
 export class PathBasedAuthStrategy implements IAuthStrategy {
   private apiKey?: string;
   private jwt?: string;
+  private readonly rules: AuthRule[];
+  private readonly defaultPolicy: AuthPolicy;
 
-  /**
-   * Mapping of path patterns to auth types
-   */
-  private readonly authRules: Array<{ pattern: string; type: AuthType }> = [
-    // Database, PubSub, Proxy, Cache: prefer API key
-    { pattern: "/v1/rqlite/", type: "api-key-only" },
-    { pattern: "/v1/pubsub/", type: "api-key-only" },
-    { pattern: "/v1/proxy/", type: "api-key-only" },
-    { pattern: "/v1/cache/", type: "api-key-only" },
-    // Auth operations: prefer API key
-    { pattern: "/v1/auth/", type: "api-key-preferred" },
-  ];
-
-  constructor(apiKey?: string, jwt?: string) {
+  constructor(
+    apiKey?: string,
+    jwt?: string,
+    options: PathBasedAuthStrategyOptions = {}
+  ) {
     this.apiKey = apiKey;
     this.jwt = jwt;
+    this.rules = [...(options.rules ?? []), ...DEFAULT_AUTH_RULES];
+    this.defaultPolicy = options.defaultPolicy ?? "both";
   }
 
   /**
@@ -36,43 +73,38 @@ export class PathBasedAuthStrategy implements IAuthStrategy {
    */
   getHeaders(context: RequestContext): Record<string, string> {
     const headers: Record<string, string> = {};
-    const authType = this.detectAuthType(context.path);
+    const apiKey = () => {
+      if (this.apiKey) headers["X-API-Key"] = this.apiKey;
+    };
+    const jwt = () => {
+      if (this.jwt) headers["Authorization"] = `Bearer ${this.jwt}`;
+    };
 
-    switch (authType) {
+    switch (this.getPolicy(context.path)) {
       case "api-key-only":
         if (this.apiKey) {
-          headers["X-API-Key"] = this.apiKey;
-        } else if (this.jwt) {
-          // Fallback to JWT if no API key
-          headers["Authorization"] = `Bearer ${this.jwt}`;
+          apiKey();
+        } else {
+          // Fall back to JWT if no API key
+          jwt();
         }
         break;
 
-      case "api-key-preferred":
-        if (this.apiKey) {
-          headers["X-API-Key"] = this.apiKey;
-        }
+      case "jwt-only":
         if (this.jwt) {
-          headers["Authorization"] = `Bearer ${this.jwt}`;
+          jwt();
+        } else {
+          // Fall back to API key if no JWT
+          apiKey();
         }
         break;
 
-      case "jwt-preferred":
-        if (this.jwt) {
-          headers["Authorization"] = `Bearer ${this.jwt}`;
-        }
-        if (this.apiKey) {
-          headers["X-API-Key"] = this.apiKey;
-        }
+      case "both":
+        jwt();
+        apiKey();
         break;
 
-      case "both":
-        if (this.jwt) {
-          headers["Authorization"] = `Bearer ${this.jwt}`;
-        }
-        if (this.apiKey) {
-          headers["X-API-Key"] = this.apiKey;
-        }
+      case "none":
         break;
     }
 
@@ -94,15 +126,18 @@ export class PathBasedAuthStrategy implements IAuthStrategy {
   }
 
   /**
-   * Detect auth type based on path
+   * Get the policy applied to a path
    */
-  private detectAuthType(path: string): AuthType {
-    for (const rule of this.authRules) {
-      if (path.includes(rule.pattern)) {
-        return rule.type;
+  getPolicy(path: string): AuthPolicy {
+    for (const rule of this.rules) {
+      const matches =
+        typeof rule.pattern === "string"
+          ? path.includes(rule.pattern)
+          : rule.pattern.test(path);
+      if (matches) {
+        return rule.policy;
       }
     }
-    // Default: send both if available
-    return "both";
+    return this.defaultPolicy;
   }
 }
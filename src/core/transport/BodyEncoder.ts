@@ -0,0 +1,199 @@
+import { SDKError } from "../../errors";
+import {
+  availableCompression,
+  compressBytes,
+  CompressionAlgorithm,
+} from "../../utils/compression";
+
+export type BodyFormat = "json" | "msgpack" | "cbor";
+
+/**
+ * Request body encoding configuration
+ */
+export interface BodyEncodingConfig {
+  /**
+   * Format for request bodies. MessagePack and CBOR need the optional
+   * "@msgpack/msgpack" or "cbor-x" package and are also requested for
+   * responses via Accept. Default: "json"
+   */
+  format?: BodyFormat;
+
+  /**
+   * Compress request bodies with gzip or Brotli. Brotli is only available
+   * in Node.js; other runtimes use gzip. Default: no compression
+   */
+  compression?: CompressionAlgorithm;
+
+  /**
+   * Minimum encoded body size in bytes before compressing. Default: 1024
+   */
+  compressionThreshold?: number;
+}
+
+/**
+ * Encoded request body with the headers describing it
+ */
+export interface EncodedBody {
+  body?: BodyInit;
+  headers: Record<string, string>;
+  format: BodyFormat;
+  compression?: CompressionAlgorithm;
+}
+
+interface Codec {
+  encode(value: unknown): Uint8Array;
+  decode(bytes: Uint8Array): unknown;
+}
+
+const CONTENT_TYPES: Record<BodyFormat, string> = {
+  json: "application/json",
+  msgpack: "application/msgpack",
+  cbor: "application/cbor",
+};
+
+async function loadCodec(format: Exclude<BodyFormat, "json">): Promise<Codec> {
+  const packageName = format === "msgpack" ? "@msgpack/msgpack" : "cbor-x";
+  try {
+    if (format === "msgpack") {
+      const msgpack = await import("@msgpack/msgpack");
+      return { encode: (value) => msgpack.encode(value), decode: msgpack.decode };
+    }
+    const cbor = await import("cbor-x");
+    const encoder = new cbor.Encoder({ useRecords: false, mapsAsObjects: true });
+    return {
+      encode: (value) => encoder.encode(value),
+      decode: (bytes) => encoder.decode(bytes),
+    };
+  } catch (error) {
+    throw new Error(
+      `The "${format}" body format needs the optional "${packageName}" package: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+  return bytes.buffer.slice(
+    bytes.byteOffset,
+    bytes.byteOffset + bytes.byteLength
+  ) as ArrayBuffer;
+}
+
+/**
+ * Encodes JSON request bodies as JSON, MessagePack or CBOR, compresses large
+ * bodies, and decodes binary responses. A gateway answering 415 Unsupported
+ * Media Type downgrades the client (first to JSON, then to uncompressed) so
+ * the request can be resent.
+ */
+export class BodyEncoder {
+  private format: BodyFormat;
+  private compression?: CompressionAlgorithm;
+  private readonly threshold: number;
+  private readonly codecs = new Map<BodyFormat, Promise<Codec>>();
+
+  constructor(config: BodyEncodingConfig = {}) {
+    this.format = config.format ?? "json";
+    this.compression = config.compression
+      ? availableCompression(config.compression)
+      : undefined;
+    this.threshold = config.compressionThreshold ?? 1024;
+  }
+
+  /**
+   * Encode a JSON-compatible payload (undefined means no body)
+   */
+  async encode(payload: unknown): Promise<EncodedBody> {
+    const format = this.format;
+    const headers: Record<string, string> = {
+      "Content-Type": CONTENT_TYPES[format],
+    };
+    if (format !== "json") {
+      headers["Accept"] = `${CONTENT_TYPES[format]}, application/json;q=0.9`;
+    }
+    if (payload === undefined) {
+      return { headers, format };
+    }
+
+    const json = JSON.stringify(payload);
+    let bytes: Uint8Array;
+    if (format === "json") {
+      bytes = new TextEncoder().encode(json);
+    } else {
+      // Round-trip through JSON so dates, toJSON() and undefined fields
+      // encode exactly as they would in a JSON body
+      bytes = (await this.codec(format)).encode(JSON.parse(json));
+    }
+
+    if (this.compression && bytes.byteLength >= this.threshold) {
+      headers["Content-Encoding"] = this.compression;
+      return {
+        body: await compressBytes(bytes, this.compression),
+        headers,
+        format,
+        compression: this.compression,
+      };
+    }
+    return {
+      body: format === "json" ? json : toArrayBuffer(bytes),
+      headers,
+      format,
+    };
+  }
+
+  /**
+   * After a 415 response to `encoded`, drop the feature the gateway rejected.
+   * Returns whether the payload should be encoded and sent again.
+   */
+  fallback(encoded: EncodedBody, error: unknown): boolean {
+    if (!(error instanceof SDKError) || error.httpStatus !== 415) {
+      return false;
+    }
+    if (encoded.format !== "json") {
+      this.format = "json";
+      return true;
+    }
+    if (encoded.compression) {
+      this.compression = undefined;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Whether a response content type is a binary format this encoder decodes
+   */
+  static isBinary(contentType: string | null): boolean {
+    return BodyEncoder.formatOf(contentType) !== undefined;
+  }
+
+  /**
+   * Decode a MessagePack or CBOR response body
+   */
+  async decode(bytes: ArrayBuffer, contentType: string | null): Promise<unknown> {
+    const format = BodyEncoder.formatOf(contentType);
+    if (!format) {
+      throw new Error(`Unsupported response content type: ${contentType}`);
+    }
+    return (await this.codec(format)).decode(new Uint8Array(bytes));
+  }
+
+  private static formatOf(
+    contentType: string | null
+  ): Exclude<BodyFormat, "json"> | undefined {
+    if (contentType?.includes(CONTENT_TYPES.msgpack)) return "msgpack";
+    if (contentType?.includes(CONTENT_TYPES.cbor)) return "cbor";
+    return undefined;
+  }
+
+  private codec(format: Exclude<BodyFormat, "json">): Promise<Codec> {
+    let codec = this.codecs.get(format);
+    if (!codec) {
+      codec = loadCodec(format);
+      // Let a later call retry a failed import
+      codec.catch(() => this.codecs.delete(format));
+      this.codecs.set(format, codec);
+    }
+    return codec;
+  }
+}
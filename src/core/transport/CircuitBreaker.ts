@@ -0,0 +1,210 @@
+import { SDKError } from "../../errors";
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Circuit breaker configuration
+ */
+export interface CircuitBreakerConfig {
+  /**
+   * Consecutive failures that open the circuit. Default: 5
+   */
+  failureThreshold?: number;
+
+  /**
+   * How long the circuit stays open before letting a trial request through (ms). Default: 30000
+   */
+  resetTimeoutMs?: number;
+
+  /**
+   * Trial requests allowed at once while half-open. Default: 1
+   */
+  halfOpenMaxRequests?: number;
+
+  /**
+   * Successful trial requests needed to close the circuit again. Default: 1
+   */
+  successThreshold?: number;
+
+  /**
+   * Called whenever a circuit changes state
+   */
+  onStateChange?: (event: CircuitStateChange) => void;
+}
+
+/**
+ * Emitted when a circuit changes state
+ */
+export interface CircuitStateChange {
+  gateway: string;
+  routePrefix: string;
+  from: CircuitState;
+  to: CircuitState;
+}
+
+/**
+ * State of a single circuit (one gateway and route prefix)
+ */
+export interface CircuitSnapshot {
+  gateway: string;
+  routePrefix: string;
+  state: CircuitState;
+  failures: number;
+  openedAt?: number;
+}
+
+interface Circuit extends CircuitSnapshot {
+  successes: number;
+  inFlight: number;
+}
+
+/**
+ * Circuit breakers keyed by gateway and route prefix (`/v1/rqlite/`, `/v1/cache/`, ...),
+ * so an unavailable backend fails fast without affecting other services.
+ */
+export class CircuitBreaker {
+  private readonly circuits = new Map<string, Circuit>();
+  private readonly failureThreshold: number;
+  private readonly resetTimeoutMs: number;
+  private readonly halfOpenMaxRequests: number;
+  private readonly successThreshold: number;
+  private readonly onStateChange?: (event: CircuitStateChange) => void;
+
+  constructor(config: CircuitBreakerConfig = {}) {
+    this.failureThreshold = config.failureThreshold ?? 5;
+    this.resetTimeoutMs = config.resetTimeoutMs ?? 30000;
+    this.halfOpenMaxRequests = config.halfOpenMaxRequests ?? 1;
+    this.successThreshold = config.successThreshold ?? 1;
+    this.onStateChange = config.onStateChange;
+  }
+
+  /**
+   * Reserve a request slot, throwing a CIRCUIT_OPEN SDKError when the circuit
+   * is open (or half-open with all trial slots taken)
+   */
+  acquire(gateway: string, routePrefix: string): void {
+    const circuit = this.get(gateway, routePrefix);
+
+    if (
+      circuit.state === "open" &&
+      Date.now() - (circuit.openedAt ?? 0) >= this.resetTimeoutMs
+    ) {
+      this.transition(circuit, "half-open");
+    }
+
+    if (
+      circuit.state === "open" ||
+      (circuit.state === "half-open" &&
+        circuit.inFlight >= this.halfOpenMaxRequests)
+    ) {
+      throw new SDKError(
+        `Circuit open for ${routePrefix} on ${gateway}`,
+        503,
+        "CIRCUIT_OPEN",
+        { gateway, routePrefix, state: circuit.state }
+      );
+    }
+
+    circuit.inFlight++;
+  }
+
+  /**
+   * Record that the backend answered
+   */
+  recordSuccess(gateway: string, routePrefix: string): void {
+    const circuit = this.get(gateway, routePrefix);
+    this.release(circuit);
+    circuit.failures = 0;
+
+    if (circuit.state === "half-open") {
+      circuit.successes++;
+      if (circuit.successes >= this.successThreshold) {
+        this.transition(circuit, "closed");
+      }
+    }
+  }
+
+  /**
+   * Record a network error, timeout or 5xx response
+   */
+  recordFailure(gateway: string, routePrefix: string): void {
+    const circuit = this.get(gateway, routePrefix);
+    this.release(circuit);
+    circuit.failures++;
+
+    if (
+      circuit.state === "half-open" ||
+      (circuit.state === "closed" && circuit.failures >= this.failureThreshold)
+    ) {
+      this.transition(circuit, "open");
+    }
+  }
+
+  /**
+   * Release a slot without an outcome (e.g. the caller cancelled)
+   */
+  recordCancelled(gateway: string, routePrefix: string): void {
+    this.release(this.get(gateway, routePrefix));
+  }
+
+  /**
+   * Get a snapshot of every known circuit
+   */
+  getStates(): CircuitSnapshot[] {
+    return Array.from(this.circuits.values()).map(
+      ({ gateway, routePrefix, state, failures, openedAt }) => ({
+        gateway,
+        routePrefix,
+        state,
+        failures,
+        openedAt,
+      })
+    );
+  }
+
+  /**
+   * Close all circuits
+   */
+  reset(): void {
+    this.circuits.clear();
+  }
+
+  private get(gateway: string, routePrefix: string): Circuit {
+    const key = `${gateway} ${routePrefix}`;
+    let circuit = this.circuits.get(key);
+    if (!circuit) {
+      circuit = {
+        gateway,
+        routePrefix,
+        state: "closed",
+        failures: 0,
+        successes: 0,
+        inFlight: 0,
+      };
+      this.circuits.set(key, circuit);
+    }
+    return circuit;
+  }
+
+  private release(circuit: Circuit): void {
+    circuit.inFlight = Math.max(0, circuit.inFlight - 1);
+  }
+
+  private transition(circuit: Circuit, to: CircuitState): void {
+    const from = circuit.state;
+    circuit.state = to;
+    circuit.successes = 0;
+    if (to === "open") {
+      circuit.openedAt = Date.now();
+    } else if (to === "closed") {
+      circuit.failures = 0;
+      circuit.openedAt = undefined;
+    }
+    this.onStateChange?.({
+      gateway: circuit.gateway,
+      routePrefix: circuit.routePrefix,
+      from,
+      to,
+    });
+  }
+}
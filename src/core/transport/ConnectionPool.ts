@@ -0,0 +1,147 @@
+import type {
+  Agent,
+  Pool,
+  RequestInfo as UndiciRequestInfo,
+  RequestInit as UndiciRequestInit,
+} from "undici";
+import { Platform } from "../../utils/platform";
+import { TLSConfiguration, TLSOptions } from "./TLSConfiguration";
+
+/**
+ * Keep-alive connection pool configuration (Node.js only)
+ */
+export interface ConnectionPoolConfig {
+  /**
+   * Max sockets per gateway origin. Unlimited if unset.
+   */
+  maxSockets?: number;
+
+  /**
+   * How long an idle socket is kept open for reuse, in ms. Default: 4000
+   */
+  keepAliveTimeoutMs?: number;
+
+  /**
+   * Negotiate HTTP/2 with https gateways (via ALPN, falling back to
+   * HTTP/1.1). Default: false
+   */
+  http2?: boolean;
+
+  /**
+   * TLS settings for the pooled connections
+   */
+  tls?: TLSOptions;
+}
+
+/**
+ * Socket and request counts of one origin, or of the whole pool
+ */
+export interface ConnectionPoolCounts {
+  /** Open sockets */
+  connected: number;
+  /** Open sockets without an active request */
+  free: number;
+  /** Requests sent and awaiting a response */
+  pending: number;
+  /** Requests waiting for a socket */
+  queued: number;
+  /** Requests currently being processed */
+  running: number;
+  /** Active, pending and queued requests */
+  size: number;
+}
+
+export interface ConnectionPoolStats extends ConnectionPoolCounts {
+  origins: Record<string, ConnectionPoolCounts>;
+}
+
+function emptyCounts(): ConnectionPoolCounts {
+  return { connected: 0, free: 0, pending: 0, queued: 0, running: 0, size: 0 };
+}
+
+/**
+ * Keep-alive connection pool for Node.js, backed by an undici Agent with one
+ * pool per gateway origin. In browsers `fetch` is the native fetch, which
+ * manages its own connections, and the stats stay empty.
+ */
+export class ConnectionPool {
+  private readonly config: ConnectionPoolConfig;
+  private readonly pools = new Map<string, Pool>();
+  private agent?: Promise<Agent>;
+  private closed = false;
+
+  constructor(config: ConnectionPoolConfig = {}) {
+    this.config = config;
+    if (config.tls) {
+      TLSConfiguration.validate(config.tls);
+    }
+  }
+
+  /**
+   * Fetch bound to this pool's connections
+   */
+  readonly fetch: typeof fetch = async (input, init) => {
+    if (!Platform.isNode()) {
+      return globalThis.fetch(input, init);
+    }
+    if (this.closed) {
+      throw new Error("Connection pool is closed");
+    }
+    this.agent ??= this.createAgent();
+    const [undici, dispatcher] = await Promise.all([
+      import(/* webpackIgnore: true */ /* @vite-ignore */ "undici"),
+      this.agent,
+    ]);
+    return undici.fetch(input as UndiciRequestInfo, {
+      ...(init as UndiciRequestInit),
+      dispatcher,
+    }) as unknown as Promise<Response>;
+  };
+
+  /**
+   * Get socket and request counts, in total and per gateway origin
+   */
+  getStats(): ConnectionPoolStats {
+    const total: ConnectionPoolStats = { ...emptyCounts(), origins: {} };
+    for (const [origin, pool] of this.pools) {
+      const { connected, free, pending, queued, running, size } = pool.stats;
+      const counts = { connected, free, pending, queued, running, size };
+      total.origins[origin] = counts;
+      for (const key of Object.keys(counts) as (keyof ConnectionPoolCounts)[]) {
+        total[key] += counts[key];
+      }
+    }
+    return total;
+  }
+
+  /**
+   * Close all sockets once their in-flight requests finish
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    if (this.agent) {
+      await (await this.agent).close();
+    }
+    this.pools.clear();
+  }
+
+  private async createAgent(): Promise<Agent> {
+    const [undici, connect] = await Promise.all([
+      import(/* webpackIgnore: true */ /* @vite-ignore */ "undici"),
+      this.config.tls
+        ? TLSConfiguration.connectOptions(this.config.tls)
+        : undefined,
+    ]);
+    return new undici.Agent({
+      connections: this.config.maxSockets ?? null,
+      keepAliveTimeout: this.config.keepAliveTimeoutMs,
+      allowH2: this.config.http2,
+      connect,
+      factory: (origin, options) => {
+        const pool = new undici.Pool(origin, options as Pool.Options);
+        this.pools.set(String(origin), pool);
+        return pool;
+      },
+    });
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * Gateway pool configuration
+ */
+export interface GatewayPoolConfig {
+  /**
+   * How long a failed gateway is skipped before it is tried again (ms). Default: 30000
+   */
+  cooldownMs?: number;
+
+  /**
+   * Probe every gateway against /v1/health on this interval (ms).
+   * Disabled by default; failures observed on real requests still trigger failover.
+   */
+  healthCheckIntervalMs?: number;
+
+  /**
+   * Timeout for a single health probe (ms). Default: 5000
+   */
+  healthCheckTimeoutMs?: number;
+
+  /**
+   * Called whenever the active gateway changes
+   */
+  onFailover?: (from: string, to: string) => void;
+}
+
+/**
+ * Health state of a single gateway
+ */
+export interface GatewayState {
+  url: string;
+  healthy: boolean;
+  lastFailureAt?: number;
+  lastCheckedAt?: number;
+}
+
+/**
+ * Probe function used for health checks; resolves true when the gateway is healthy
+ */
+export type GatewayProbe = (baseURL: string, timeoutMs: number) => Promise<boolean>;
+
+/**
+ * Pool of gateways with sticky selection and failover.
+ * The active gateway is kept until it fails; the pool then moves to the next
+ * healthy gateway in configuration order.
+ */
+export class GatewayPool {
+  private readonly gateways: GatewayState[];
+  private readonly probe: GatewayProbe;
+  private readonly cooldownMs: number;
+  private readonly healthCheckTimeoutMs: number;
+  private readonly onFailover?: (from: string, to: string) => void;
+  private activeIndex = 0;
+  private healthTimer?: ReturnType<typeof setInterval>;
+
+  constructor(
+    urls: string[],
+    probe: GatewayProbe,
+    config: GatewayPoolConfig = {}
+  ) {
+    if (urls.length === 0) {
+      throw new Error("GatewayPool requires at least one gateway URL");
+    }
+    this.gateways = urls.map((url) => ({
+      url: url.replace(/\/$/, ""),
+      healthy: true,
+    }));
+    this.probe = probe;
+    this.cooldownMs = config.cooldownMs ?? 30000;
+    this.healthCheckTimeoutMs = config.healthCheckTimeoutMs ?? 5000;
+    this.onFailover = config.onFailover;
+
+    if (config.healthCheckIntervalMs && this.gateways.length > 1) {
+      this.startHealthChecks(config.healthCheckIntervalMs);
+    }
+  }
+
+  /**
+   * Number of gateways in the pool
+   */
+  get size(): number {
+    return this.gateways.length;
+  }
+
+  /**
+   * Get the currently active gateway URL
+   */
+  getActive(): string {
+    return this.gateways[this.activeIndex].url;
+  }
+
+  /**
+   * Get a snapshot of all gateway states
+   */
+  getGateways(): GatewayState[] {
+    return this.gateways.map((gateway) => ({ ...gateway }));
+  }
+
+  /**
+   * Record a successful response from a gateway
+   */
+  reportSuccess(url: string): void {
+    const gateway = this.find(url);
+    if (gateway) {
+      gateway.healthy = true;
+    }
+  }
+
+  /**
+   * Record a failure and fail over if it was the active gateway.
+   * Returns the (possibly new) active gateway URL.
+   */
+  reportFailure(url: string): string {
+    const gateway = this.find(url);
+    if (gateway) {
+      gateway.healthy = false;
+      gateway.lastFailureAt = Date.now();
+    }
+    if (this.getActive() === url) {
+      this.selectNext();
+    }
+    return this.getActive();
+  }
+
+  /**
+   * Probe all gateways and update their health.
+   * Switches away from the active gateway if it is down and another is up.
+   */
+  async checkHealth(): Promise<GatewayState[]> {
+    await Promise.all(
+      this.gateways.map(async (gateway) => {
+        let healthy = false;
+        try {
+          healthy = await this.probe(gateway.url, this.healthCheckTimeoutMs);
+        } catch {
+          healthy = false;
+        }
+        gateway.healthy = healthy;
+        gateway.lastCheckedAt = Date.now();
+        if (!healthy) {
+          gateway.lastFailureAt = gateway.lastCheckedAt;
+        }
+      })
+    );
+
+    if (!this.gateways[this.activeIndex].healthy) {
+      this.selectNext();
+    }
+    return this.getGateways();
+  }
+
+  /**
+   * Stop periodic health checks
+   */
+  stopHealthChecks(): void {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = undefined;
+    }
+  }
+
+  private startHealthChecks(intervalMs: number): void {
+    this.healthTimer = setInterval(() => {
+      void this.checkHealth();
+    }, intervalMs);
+    // Don't keep Node.js processes alive just for health checks
+    (this.healthTimer as { unref?: () => void }).unref?.();
+  }
+
+  /**
+   * Move to the next available gateway, preferring healthy ones,
+   * then ones whose cooldown has expired, then the least recently failed.
+   */
+  private selectNext(): void {
+    const now = Date.now();
+    const count = this.gateways.length;
+    let candidate = -1;
+
+    for (let offset = 1; offset < count; offset++) {
+      const index = (this.activeIndex + offset) % count;
+      if (this.gateways[index].healthy) {
+        candidate = index;
+        break;
+      }
+    }
+
+    if (candidate === -1) {
+      for (let offset = 1; offset < count; offset++) {
+        const index = (this.activeIndex + offset) % count;
+        const failedAt = this.gateways[index].lastFailureAt ?? 0;
+        if (now - failedAt >= this.cooldownMs) {
+          candidate = index;
+          break;
+        }
+      }
+    }
+
+    if (candidate === -1) {
+      candidate = this.activeIndex;
+      for (let index = 0; index < count; index++) {
+        const failedAt = this.gateways[index].lastFailureAt ?? 0;
+        if (failedAt < (this.gateways[candidate].lastFailureAt ?? 0)) {
+          candidate = index;
+        }
+      }
+    }
+
+    if (candidate !== this.activeIndex) {
+      const from = this.getActive();
+      this.activeIndex = candidate;
+      this.onFailover?.(from, this.getActive());
+    }
+  }
+
+  private find(url: string): GatewayState | undefined {
+    return this.gateways.find((gateway) => gateway.url === url);
+  }
+}
@@ -0,0 +1,273 @@
+import { AbortError, SDKError } from "../../errors";
+
+/**
+ * A service probed by the health monitor
+ */
+export interface HealthProbe {
+  /** Path probed with GET; any 2xx response means the service is up */
+  path: string;
+  /**
+   * Path prefixes that fail fast while the service is down (with
+   * `gateRequests`). "/" covers every request.
+   */
+  routes: string[];
+}
+
+export type HealthStatus = "unknown" | "up" | "down";
+
+/**
+ * Last known health of a probed service
+ */
+export interface ServiceHealth {
+  service: string;
+  status: HealthStatus;
+  /** Duration of the last probe (ms) */
+  latencyMs?: number;
+  /** When the service was last probed (ms since epoch) */
+  lastCheckedAt?: number;
+  /** When the service went down (ms since epoch) */
+  downSince?: number;
+  /** Probes failed in a row */
+  consecutiveFailures: number;
+  /** Message of the last failed probe */
+  error?: string;
+}
+
+/**
+ * Emitted when a service goes up or down
+ */
+export interface ServiceHealthChange {
+  service: string;
+  from: HealthStatus;
+  to: HealthStatus;
+  health: ServiceHealth;
+}
+
+/**
+ * Health monitor configuration
+ */
+export interface HealthMonitorConfig {
+  /**
+   * Services to probe. Default: the gateway (/v1/health, gating every
+   * request), cache (/v1/cache/health) and network (/v1/network/status)
+   */
+  probes?: Record<string, HealthProbe>;
+
+  /**
+   * How often every service is probed (ms). Default: 30000
+   */
+  intervalMs?: number;
+
+  /**
+   * Timeout for a single probe (ms). Default: 5000
+   */
+  timeoutMs?: number;
+
+  /**
+   * Failed probes in a row before a service is reported down. Default: 1
+   */
+  failureThreshold?: number;
+
+  /**
+   * Reject requests to a service that is down with a SERVICE_UNAVAILABLE
+   * SDKError instead of sending them. Default: false
+   */
+  gateRequests?: boolean;
+
+  /**
+   * Called whenever a service goes up or down
+   */
+  onChange?: (change: ServiceHealthChange) => void;
+}
+
+/**
+ * How the monitor reaches the gateway; provided by HttpClient.
+ * `probe` rejects when the service is unreachable or answers with an error.
+ */
+export interface HealthMonitorTransport {
+  probe(path: string, timeoutMs: number): Promise<void>;
+}
+
+const DEFAULT_PROBES: Record<string, HealthProbe> = {
+  gateway: { path: "/v1/health", routes: ["/"] },
+  cache: { path: "/v1/cache/health", routes: ["/v1/cache/"] },
+  network: { path: "/v1/network/status", routes: ["/v1/network/"] },
+};
+
+/**
+ * Periodically probes gateway services in the background and tracks whether
+ * each one is up, with its probe latency. Status changes are reported through
+ * `onChange`; with `gateRequests`, requests to a service that is down fail
+ * fast until a probe sees it recover. Probes always target the active gateway.
+ */
+export class HealthMonitor {
+  private readonly probes: Record<string, HealthProbe>;
+  private readonly intervalMs: number;
+  private readonly timeoutMs: number;
+  private readonly failureThreshold: number;
+  private readonly gateRequests: boolean;
+  private readonly onChange?: (change: ServiceHealthChange) => void;
+  private readonly services = new Map<string, ServiceHealth>();
+  /** Attached clients; probes go through the most recent one */
+  private transports: HealthMonitorTransport[] = [];
+  private timer?: ReturnType<typeof setInterval>;
+  private checking?: Promise<ServiceHealth[]>;
+
+  constructor(config: HealthMonitorConfig = {}) {
+    this.probes = config.probes ?? DEFAULT_PROBES;
+    this.intervalMs = config.intervalMs ?? 30000;
+    this.timeoutMs = config.timeoutMs ?? 5000;
+    this.failureThreshold = Math.max(1, config.failureThreshold ?? 1);
+    this.gateRequests = config.gateRequests ?? false;
+    this.onChange = config.onChange;
+    for (const service of Object.keys(this.probes)) {
+      this.services.set(service, {
+        service,
+        status: "unknown",
+        consecutiveFailures: 0,
+      });
+    }
+  }
+
+  /**
+   * Connect the monitor to a client it probes through, run a first check
+   * and start periodic checks. A monitor can be shared by several clients.
+   */
+  attach(transport: HealthMonitorTransport): void {
+    this.transports.push(transport);
+    this.stop();
+    void this.check();
+    this.timer = setInterval(() => {
+      void this.check();
+    }, this.intervalMs);
+    // Don't keep Node.js processes alive just for health checks
+    (this.timer as { unref?: () => void }).unref?.();
+  }
+
+  /**
+   * Probe every service now. Concurrent calls share one round of probes.
+   */
+  check(): Promise<ServiceHealth[]> {
+    this.checking ??= this.probeAll().finally(() => {
+      this.checking = undefined;
+    });
+    return this.checking;
+  }
+
+  /**
+   * Get the last known health of every service
+   */
+  getStatus(): ServiceHealth[] {
+    return Array.from(this.services.values(), (health) => ({ ...health }));
+  }
+
+  /**
+   * Whether any service is down
+   */
+  isDegraded(): boolean {
+    for (const health of this.services.values()) {
+      if (health.status === "down") {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * With `gateRequests`, throw a SERVICE_UNAVAILABLE SDKError if a service
+   * covering `path` is down
+   */
+  assertAvailable(path: string): void {
+    if (!this.gateRequests) {
+      return;
+    }
+    for (const [service, probe] of Object.entries(this.probes)) {
+      const health = this.services.get(service)!;
+      if (
+        health.status === "down" &&
+        probe.routes.some((route) => path.startsWith(route))
+      ) {
+        throw new SDKError(
+          `Service "${service}" is unavailable (health checks failing)`,
+          503,
+          "SERVICE_UNAVAILABLE",
+          { service, downSince: health.downSince, error: health.error }
+        );
+      }
+    }
+  }
+
+  /**
+   * Disconnect a client attached with attach(). Periodic checks stop once
+   * no client is attached.
+   */
+  detach(transport: HealthMonitorTransport): void {
+    this.transports = this.transports.filter((t) => t !== transport);
+    if (this.transports.length === 0) {
+      this.stop();
+    }
+  }
+
+  /**
+   * Stop periodic checks
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private async probeAll(): Promise<ServiceHealth[]> {
+    const transport = this.transports[this.transports.length - 1];
+    if (transport) {
+      await Promise.all(
+        Object.entries(this.probes).map(([service, probe]) =>
+          this.probeService(transport, service, probe)
+        )
+      );
+    }
+    return this.getStatus();
+  }
+
+  private async probeService(
+    transport: HealthMonitorTransport,
+    service: string,
+    probe: HealthProbe
+  ): Promise<void> {
+    const health = this.services.get(service)!;
+    const startTime = performance.now();
+    let failure: unknown;
+    try {
+      await transport.probe(probe.path, this.timeoutMs);
+    } catch (error) {
+      // Cancelled (e.g. the client closed): says nothing about the service
+      if (error instanceof AbortError) {
+        return;
+      }
+      failure = error;
+    }
+    health.latencyMs = performance.now() - startTime;
+    health.lastCheckedAt = Date.now();
+
+    const from = health.status;
+    if (failure === undefined) {
+      health.status = "up";
+      health.consecutiveFailures = 0;
+      health.downSince = undefined;
+      health.error = undefined;
+    } else {
+      health.consecutiveFailures++;
+      health.error =
+        failure instanceof Error ? failure.message : String(failure);
+      if (health.consecutiveFailures >= this.failureThreshold) {
+        health.status = "down";
+        health.downSince ??= health.lastCheckedAt;
+      }
+    }
+
+    if (health.status !== from) {
+      this.onChange?.({ service, from, to: health.status, health: { ...health } });
+    }
+  }
+}
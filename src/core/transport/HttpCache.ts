@@ -0,0 +1,314 @@
+import type { StorageAdapter } from "../../auth/types";
+
+/**
+ * Cached GET response
+ */
+export interface HttpCacheEntry {
+  body: string;
+  contentType?: string;
+  etag?: string;
+  lastModified?: string;
+  /** When the response was generated, from receipt time minus its Age (ms since epoch) */
+  storedAt: number;
+  /** Freshness lifetime from Cache-Control max-age (ms); 0 revalidates on every use */
+  maxAgeMs: number;
+}
+
+/**
+ * Storage for cached responses
+ */
+export interface HttpCacheStore {
+  get(key: string): Promise<HttpCacheEntry | undefined>;
+  set(key: string, entry: HttpCacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * In-memory store evicting the least recently used entry beyond `maxEntries`
+ */
+export class MemoryHttpCacheStore implements HttpCacheStore {
+  private readonly entries = new Map<string, HttpCacheEntry>();
+  private readonly maxEntries: number;
+
+  constructor(maxEntries = 500) {
+    this.maxEntries = maxEntries;
+  }
+
+  async get(key: string): Promise<HttpCacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Re-insert to mark as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: HttpCacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    if (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Store persisting entries through a StorageAdapter (e.g. localStorage),
+ * so cached responses survive reloads. StorageAdapter cannot delete keys,
+ * so deleted and cleared entries are overwritten with an empty value that
+ * get() reads as missing; the empty key stays in the adapter until the
+ * same response is cached again or the adapter is cleared.
+ */
+export class StorageHttpCacheStore implements HttpCacheStore {
+  private readonly storage: StorageAdapter;
+  private readonly prefix: string;
+  private readonly indexKey: string;
+
+  constructor(storage: StorageAdapter, prefix = "httpCache:") {
+    this.storage = storage;
+    this.prefix = prefix;
+    this.indexKey = `${prefix}index`;
+  }
+
+  async get(key: string): Promise<HttpCacheEntry | undefined> {
+    const raw = await this.storage.get(this.prefix + key);
+    if (!raw) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(raw) as HttpCacheEntry;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: HttpCacheEntry): Promise<void> {
+    await this.storage.set(this.prefix + key, JSON.stringify(entry));
+    const keys = await this.keys();
+    if (!keys.includes(key)) {
+      await this.storage.set(this.indexKey, JSON.stringify([...keys, key]));
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    // StorageAdapter has no delete; an empty value reads as missing
+    await this.storage.set(this.prefix + key, "");
+    const keys = await this.keys();
+    await this.storage.set(
+      this.indexKey,
+      JSON.stringify(keys.filter((k) => k !== key))
+    );
+  }
+
+  async clear(): Promise<void> {
+    // Only remove cache entries, not the credentials sharing the adapter
+    for (const key of await this.keys()) {
+      await this.storage.set(this.prefix + key, "");
+    }
+    await this.storage.set(this.indexKey, "[]");
+  }
+
+  private async keys(): Promise<string[]> {
+    try {
+      return JSON.parse((await this.storage.get(this.indexKey)) || "[]");
+    } catch {
+      return [];
+    }
+  }
+}
+
+/**
+ * HTTP cache configuration
+ */
+export interface HttpCacheConfig {
+  /**
+   * Where responses are kept. Default: MemoryHttpCacheStore
+   */
+  store?: HttpCacheStore;
+}
+
+interface CacheControl {
+  noStore: boolean;
+  noCache: boolean;
+  maxAge?: number;
+}
+
+function parseCacheControl(header: string | null): CacheControl {
+  const directives = new Map<string, string | undefined>();
+  for (const part of (header ?? "").split(",")) {
+    const [name, value] = part.trim().split("=");
+    if (name) {
+      directives.set(name.toLowerCase(), value?.replace(/"/g, ""));
+    }
+  }
+  const maxAge = Number(directives.get("max-age"));
+  return {
+    noStore: directives.has("no-store"),
+    noCache: directives.has("no-cache"),
+    maxAge: Number.isFinite(maxAge) && maxAge >= 0 ? maxAge : undefined,
+  };
+}
+
+/**
+ * Hex SHA-256 digest (WebCrypto), so cache keys don't contain credentials
+ * and different credentials never share entries. Undefined where WebCrypto
+ * is unavailable (e.g. insecure browser contexts).
+ */
+async function sha256(value: string): Promise<string | undefined> {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    return undefined;
+  }
+  const digest = await subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(value)
+  );
+  return Array.from(new Uint8Array(digest), (b) =>
+    b.toString(16).padStart(2, "0")
+  ).join("");
+}
+
+/**
+ * Private HTTP cache for GET responses. Fresh responses (Cache-Control
+ * max-age) are served without a request; stale ones are revalidated with
+ * If-None-Match / If-Modified-Since and reused on 304 Not Modified.
+ * Responses with no-store, or with neither max-age nor a validator, are
+ * not cached. Store failures never fail a request.
+ */
+export class HttpCache {
+  private readonly store: HttpCacheStore;
+
+  constructor(config: HttpCacheConfig = {}) {
+    this.store = config.store ?? new MemoryHttpCacheStore();
+  }
+
+  /**
+   * Cache key for a GET request; responses differ per credentials (namespace).
+   * Undefined, so the request bypasses the cache, without WebCrypto.
+   */
+  static async key(
+    path: string,
+    query: Record<string, string | number | boolean> | undefined,
+    credentials: string
+  ): Promise<string | undefined> {
+    const namespace = await sha256(credentials);
+    if (namespace === undefined) {
+      return undefined;
+    }
+    const search = query
+      ? new URLSearchParams(
+          Object.entries(query).map(([key, value]) => [key, String(value)])
+        ).toString()
+      : "";
+    return `${namespace}:${path}${search ? `?${search}` : ""}`;
+  }
+
+  /**
+   * Look up a cached response and whether it can be used without revalidation
+   */
+  async lookup(
+    key: string
+  ): Promise<{ entry: HttpCacheEntry; fresh: boolean } | undefined> {
+    let entry: HttpCacheEntry | undefined;
+    try {
+      entry = await this.store.get(key);
+    } catch {
+      return undefined;
+    }
+    if (!entry) {
+      return undefined;
+    }
+    return { entry, fresh: Date.now() - entry.storedAt < entry.maxAgeMs };
+  }
+
+  /**
+   * Conditional request headers revalidating a cached response
+   */
+  conditionalHeaders(entry: HttpCacheEntry): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (entry.etag) {
+      headers["If-None-Match"] = entry.etag;
+    }
+    if (entry.lastModified) {
+      headers["If-Modified-Since"] = entry.lastModified;
+    }
+    return headers;
+  }
+
+  /**
+   * Store a 200 response, or drop the cached one if the new response is not cacheable
+   */
+  async save(key: string, headers: Headers, body: string): Promise<void> {
+    const entry = this.toEntry(headers, body);
+    try {
+      if (entry) {
+        await this.store.set(key, entry);
+      } else {
+        await this.store.delete(key);
+      }
+    } catch {
+      // Caching is best effort
+    }
+  }
+
+  /**
+   * Refresh a cached response after 304 Not Modified and return it
+   */
+  async revalidated(
+    key: string,
+    entry: HttpCacheEntry,
+    headers: Headers
+  ): Promise<HttpCacheEntry> {
+    const refreshed = this.toEntry(headers, entry.body, entry) ?? entry;
+    try {
+      await this.store.set(key, refreshed);
+    } catch {
+      // Caching is best effort
+    }
+    return refreshed;
+  }
+
+  /**
+   * Remove all cached responses
+   */
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+
+  private toEntry(
+    headers: Headers,
+    body: string,
+    previous?: HttpCacheEntry
+  ): HttpCacheEntry | undefined {
+    const cacheControl = parseCacheControl(headers.get("cache-control"));
+    if (cacheControl.noStore) {
+      return undefined;
+    }
+    const etag = headers.get("etag") ?? previous?.etag;
+    const lastModified = headers.get("last-modified") ?? previous?.lastModified;
+    const maxAge = cacheControl.noCache ? 0 : (cacheControl.maxAge ?? 0);
+    if (maxAge === 0 && !etag && !lastModified) {
+      return undefined;
+    }
+    const age = Number(headers.get("age")) || 0;
+    return {
+      body,
+      contentType:
+        headers.get("content-type") ?? previous?.contentType ?? undefined,
+      etag: etag ?? undefined,
+      lastModified: lastModified ?? undefined,
+      storedAt: Date.now() - age * 1000,
+      maxAgeMs: maxAge * 1000,
+    };
+  }
+}
@@ -0,0 +1,332 @@
+import { MemoryStorage, StorageAdapter } from "../../auth/types";
+import {
+  AbortError,
+  ConflictError,
+  NetworkError,
+  SDKError,
+  TimeoutError,
+} from "../../errors";
+import type { HttpMethod } from "../http";
+
+/**
+ * Mutation stored in the offline queue
+ */
+export interface QueuedMutation {
+  /**
+   * Unique id, also sent as the Idempotency-Key on every attempt so the
+   * gateway can drop a replay of a write it already applied
+   */
+  id: string;
+  method: HttpMethod;
+  path: string;
+  query?: Record<string, string | number | boolean>;
+  body?: unknown;
+  /** When the mutation was queued (ms since epoch) */
+  queuedAt: number;
+  /** Replays that failed because the gateway was still unreachable */
+  attempts: number;
+}
+
+/**
+ * Offline queue configuration
+ */
+export interface OfflineQueueConfig {
+  /**
+   * Where queued mutations are persisted. createClient defaults to the
+   * client's `storage` adapter; otherwise in memory.
+   */
+  storage?: StorageAdapter;
+
+  /**
+   * Storage key for the queue. Default: "offlineQueue"
+   */
+  storageKey?: string;
+
+  /**
+   * Paths whose failed mutations are queued. Default: db.exec,
+   * db.transaction, cache.put and pubsub.publish
+   */
+  routes?: string[];
+
+  /**
+   * How often /v1/health is probed while mutations are queued (ms). Default: 5000
+   */
+  healthCheckIntervalMs?: number;
+
+  /**
+   * Max queued mutations; further calls fail instead of queueing. Default: 1000
+   */
+  maxSize?: number;
+
+  /**
+   * Called when a mutation is queued
+   */
+  onQueued?: (mutation: QueuedMutation) => void;
+
+  /**
+   * Called when a queued mutation has been replayed successfully
+   */
+  onReplayed?: (mutation: QueuedMutation, result: unknown) => void;
+
+  /**
+   * Called when the gateway rejects a replayed mutation with 409 Conflict.
+   * The mutation is removed from the queue.
+   */
+  onConflict?: (mutation: QueuedMutation, error: ConflictError) => void;
+
+  /**
+   * Called when a replayed mutation fails permanently (e.g. a validation or
+   * auth error). The mutation is removed from the queue.
+   */
+  onFailed?: (mutation: QueuedMutation, error: unknown) => void;
+}
+
+/**
+ * How the queue sends replays and probes the gateway; provided by HttpClient
+ */
+export interface OfflineQueueTransport {
+  send(mutation: QueuedMutation): Promise<unknown>;
+  healthCheck(): Promise<boolean>;
+}
+
+const DEFAULT_OFFLINE_ROUTES = [
+  "/v1/rqlite/exec",
+  "/v1/rqlite/transaction",
+  "/v1/cache/put",
+  "/v1/pubsub/publish",
+];
+
+/**
+ * Failures meaning the gateway could not be reached (as opposed to the
+ * gateway rejecting the request): network errors, timeouts, 502/503/504
+ * and open circuits. An exceeded caller deadline is not one: replaying the
+ * mutation later would ignore it.
+ */
+export function isOfflineError(error: unknown): boolean {
+  if (error instanceof TimeoutError) {
+    return error.code !== "DEADLINE_EXCEEDED";
+  }
+  if (error instanceof NetworkError) {
+    return true;
+  }
+  return (
+    error instanceof SDKError &&
+    (error.code === "CIRCUIT_OPEN" || [502, 503, 504].includes(error.httpStatus))
+  );
+}
+
+/**
+ * Persistent FIFO of mutations that failed while the gateway was unreachable.
+ * While mutations are queued, the gateway is probed periodically; once it is
+ * healthy they are replayed in order. New mutations on queued routes wait
+ * behind them so writes are never reordered.
+ */
+export class OfflineQueue {
+  private readonly storage: StorageAdapter;
+  private readonly storageKey: string;
+  private readonly routes: string[];
+  private readonly healthCheckIntervalMs: number;
+  private readonly maxSize: number;
+  private readonly config: OfflineQueueConfig;
+  private entries: QueuedMutation[] = [];
+  private loaded?: Promise<void>;
+  private persisting: Promise<void> = Promise.resolve();
+  private transport?: OfflineQueueTransport;
+  private timer?: ReturnType<typeof setTimeout>;
+  private flushing?: Promise<void>;
+  private stopped = false;
+
+  constructor(config: OfflineQueueConfig = {}) {
+    this.config = config;
+    this.storage = config.storage ?? new MemoryStorage();
+    this.storageKey = config.storageKey ?? "offlineQueue";
+    this.routes = config.routes ?? DEFAULT_OFFLINE_ROUTES;
+    this.healthCheckIntervalMs = config.healthCheckIntervalMs ?? 5000;
+    this.maxSize = config.maxSize ?? 1000;
+  }
+
+  /**
+   * Connect the queue to the client that replays it. Mutations persisted
+   * by an earlier session start replaying once the gateway is healthy.
+   */
+  attach(transport: OfflineQueueTransport): void {
+    this.transport = transport;
+    void this.load().then(() => this.schedule());
+  }
+
+  /**
+   * Whether failed calls to this route are queued
+   */
+  captures(method: HttpMethod, path: string): boolean {
+    return method !== "GET" && this.routes.includes(path);
+  }
+
+  /**
+   * Whether mutations are waiting for replay
+   */
+  async hasPending(): Promise<boolean> {
+    await this.load();
+    return this.entries.length > 0;
+  }
+
+  /**
+   * Get the queued mutations, oldest first
+   */
+  async getPending(): Promise<QueuedMutation[]> {
+    await this.load();
+    return this.entries.map((mutation) => ({ ...mutation }));
+  }
+
+  /**
+   * Append a mutation and persist the queue.
+   * Throws an OFFLINE_QUEUE_FULL SDKError when the queue is full.
+   */
+  async enqueue(
+    mutation: Omit<QueuedMutation, "queuedAt" | "attempts">
+  ): Promise<QueuedMutation> {
+    await this.load();
+    if (this.entries.length >= this.maxSize) {
+      throw new SDKError(
+        `Offline queue is full (${this.maxSize} mutations)`,
+        0,
+        "OFFLINE_QUEUE_FULL"
+      );
+    }
+    const queued: QueuedMutation = {
+      ...mutation,
+      queuedAt: Date.now(),
+      attempts: 0,
+    };
+    this.entries.push(queued);
+    try {
+      await this.persist();
+    } catch (error) {
+      this.entries = this.entries.filter((entry) => entry !== queued);
+      throw error;
+    }
+    this.config.onQueued?.({ ...queued });
+    this.schedule();
+    return queued;
+  }
+
+  /**
+   * Replay queued mutations now if the gateway is healthy.
+   * Resolves when the queue is empty or the gateway is unreachable again.
+   */
+  flush(): Promise<void> {
+    this.flushing ??= this.replay().finally(() => {
+      this.flushing = undefined;
+      this.schedule();
+    });
+    return this.flushing;
+  }
+
+  /**
+   * Drop all queued mutations without replaying them
+   */
+  async clear(): Promise<void> {
+    await this.load();
+    this.entries = [];
+    await this.persist();
+  }
+
+  /**
+   * Stop probing the gateway; queued mutations stay persisted
+   */
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private async replay(): Promise<void> {
+    await this.load();
+    const transport = this.transport;
+    if (this.stopped || !transport || this.entries.length === 0) {
+      return;
+    }
+    if (!(await transport.healthCheck())) {
+      return;
+    }
+
+    // Mutations queued during the replay are picked up by the same loop;
+    // stop() (e.g. from client.close()) ends it with the rest still queued
+    while (!this.stopped && this.entries.length > 0) {
+      const mutation = this.entries[0];
+      try {
+        const result = await transport.send(mutation);
+        await this.remove(mutation);
+        this.config.onReplayed?.({ ...mutation }, result);
+      } catch (error) {
+        // Cancelled (including ClientClosedError): not a failed replay
+        if (error instanceof AbortError) {
+          return;
+        }
+        if (isOfflineError(error)) {
+          mutation.attempts++;
+          await this.persist();
+          return;
+        }
+        await this.remove(mutation);
+        if (error instanceof ConflictError) {
+          this.config.onConflict?.({ ...mutation }, error);
+        } else {
+          this.config.onFailed?.({ ...mutation }, error);
+        }
+      }
+    }
+  }
+
+  private schedule(): void {
+    if (
+      this.stopped ||
+      this.timer ||
+      this.flushing ||
+      !this.transport ||
+      this.entries.length === 0
+    ) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      void this.flush();
+    }, this.healthCheckIntervalMs);
+    // Queued mutations are persisted, so don't keep Node.js processes alive for them
+    (this.timer as { unref?: () => void }).unref?.();
+  }
+
+  private async remove(mutation: QueuedMutation): Promise<void> {
+    this.entries = this.entries.filter((entry) => entry !== mutation);
+    await this.persist();
+  }
+
+  private load(): Promise<void> {
+    this.loaded ??= this.storage
+      .get(this.storageKey)
+      .then((raw) => {
+        if (raw) {
+          const stored = JSON.parse(raw) as QueuedMutation[];
+          this.entries = [...stored, ...this.entries];
+        }
+      })
+      .catch(() => {
+        // Unreadable or corrupt storage: start with an empty queue
+      });
+    return this.loaded;
+  }
+
+  /**
+   * Write the queue; writes are serialized so the last one always wins
+   */
+  private persist(): Promise<void> {
+    const write = this.persisting
+      .catch(() => undefined)
+      .then(() =>
+        this.storage.set(this.storageKey, JSON.stringify(this.entries))
+      );
+    this.persisting = write;
+    return write;
+  }
+}
@@ -0,0 +1,260 @@
+import type { ServiceName } from "../routes";
+import { toAbortError } from "../../utils/abort";
+
+/**
+ * Limits applied to one scope (all requests, or a single service)
+ */
+export interface RateLimitOptions {
+  /**
+   * Sustained request rate (token refill per second). Unlimited if unset.
+   */
+  requestsPerSecond?: number;
+
+  /**
+   * Bucket size, i.e. how many requests may be sent back to back.
+   * Default: requestsPerSecond (at least 1)
+   */
+  burst?: number;
+
+  /**
+   * Max requests in flight at once. Unlimited if unset.
+   */
+  maxConcurrency?: number;
+}
+
+/**
+ * Rate limiter configuration
+ */
+export interface RateLimiterConfig extends RateLimitOptions {
+  /**
+   * Additional limits per service, applied on top of the global limits
+   */
+  services?: Partial<Record<ServiceName, RateLimitOptions>>;
+
+  /**
+   * Halve the rate when the gateway answers 429 and pause for its Retry-After,
+   * then recover gradually on successful responses. Default: true
+   */
+  adaptive?: boolean;
+}
+
+/**
+ * Queue and rate state of one limiter scope
+ */
+export interface RateLimitScopeStats {
+  /** Requests waiting for a token or a concurrency slot */
+  queued: number;
+  /** Requests currently in flight */
+  active: number;
+  /** Current rate after 429 adaptation (undefined when unlimited) */
+  requestsPerSecond?: number;
+}
+
+export interface RateLimitStats {
+  global: RateLimitScopeStats;
+  services: Partial<Record<ServiceName, RateLimitScopeStats>>;
+}
+
+/**
+ * Releases the slot taken by `acquire`
+ */
+export type RateLimitRelease = () => void;
+
+interface Waiter {
+  resolve: (release: RateLimitRelease) => void;
+  reject: (error: unknown) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+/**
+ * Token bucket combined with a FIFO max-concurrency queue
+ */
+class TokenBucket {
+  private readonly baseRate?: number;
+  private readonly capacity: number;
+  private readonly maxConcurrency: number;
+  private rate?: number;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  private active = 0;
+  private queue: Waiter[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(options: RateLimitOptions) {
+    this.baseRate = options.requestsPerSecond;
+    this.rate = options.requestsPerSecond;
+    this.capacity = options.burst ?? Math.max(1, options.requestsPerSecond ?? 1);
+    this.maxConcurrency = options.maxConcurrency ?? Infinity;
+    this.tokens = this.capacity;
+  }
+
+  acquire(signal?: AbortSignal): Promise<RateLimitRelease> {
+    if (signal?.aborted) {
+      return Promise.reject(toAbortError(signal));
+    }
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { resolve, reject, signal };
+      if (signal) {
+        waiter.onAbort = () => {
+          this.queue = this.queue.filter((w) => w !== waiter);
+          reject(toAbortError(signal));
+          this.drain();
+        };
+        signal.addEventListener("abort", waiter.onAbort, { once: true });
+      }
+      this.queue.push(waiter);
+      this.drain();
+    });
+  }
+
+  /**
+   * Slow down after a 429 response
+   */
+  throttle(retryAfterMs?: number): void {
+    if (this.rate !== undefined && this.baseRate !== undefined) {
+      this.rate = Math.max(this.baseRate / 16, this.rate / 2);
+      this.tokens = 0;
+    }
+    if (retryAfterMs) {
+      this.pausedUntil = Math.max(this.pausedUntil, Date.now() + retryAfterMs);
+    }
+  }
+
+  /**
+   * Move back towards the configured rate after a successful response
+   */
+  recover(): void {
+    if (
+      this.rate !== undefined &&
+      this.baseRate !== undefined &&
+      this.rate < this.baseRate
+    ) {
+      this.rate = Math.min(this.baseRate, this.rate + this.baseRate / 10);
+    }
+  }
+
+  getStats(): RateLimitScopeStats {
+    return {
+      queued: this.queue.length,
+      active: this.active,
+      requestsPerSecond: this.rate,
+    };
+  }
+
+  private refill(now: number): void {
+    if (this.rate !== undefined) {
+      const elapsed = (now - this.lastRefill) / 1000;
+      this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.rate);
+    }
+    this.lastRefill = now;
+  }
+
+  private drain(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    while (this.queue.length > 0 && this.active < this.maxConcurrency) {
+      const now = Date.now();
+      this.refill(now);
+
+      let waitMs = 0;
+      if (now < this.pausedUntil) {
+        waitMs = this.pausedUntil - now;
+      } else if (this.rate !== undefined && this.tokens < 1) {
+        waitMs = Math.ceil(((1 - this.tokens) / this.rate) * 1000);
+      }
+      if (waitMs > 0) {
+        this.timer = setTimeout(() => this.drain(), waitMs);
+        return;
+      }
+
+      if (this.rate !== undefined) {
+        this.tokens -= 1;
+      }
+      this.active++;
+      const waiter = this.queue.shift()!;
+      if (waiter.onAbort) {
+        waiter.signal?.removeEventListener("abort", waiter.onAbort);
+      }
+
+      let released = false;
+      waiter.resolve(() => {
+        if (released) return;
+        released = true;
+        this.active--;
+        this.drain();
+      });
+    }
+  }
+}
+
+/**
+ * Client-side rate limiting and concurrency control, globally and per service.
+ * Each request takes a slot from the global limiter and from its service's limiter.
+ */
+export class RateLimiter {
+  private readonly global: TokenBucket;
+  private readonly services = new Map<ServiceName, TokenBucket>();
+  private readonly adaptive: boolean;
+
+  constructor(config: RateLimiterConfig = {}) {
+    this.global = new TokenBucket(config);
+    this.adaptive = config.adaptive ?? true;
+    for (const [service, options] of Object.entries(config.services ?? {})) {
+      if (options) {
+        this.services.set(service as ServiceName, new TokenBucket(options));
+      }
+    }
+  }
+
+  /**
+   * Wait for a slot for `service`. Rejects with an AbortError if `signal` aborts while queued.
+   */
+  async acquire(
+    service: ServiceName,
+    signal?: AbortSignal
+  ): Promise<RateLimitRelease> {
+    const bucket = this.services.get(service);
+    const releaseService = bucket ? await bucket.acquire(signal) : undefined;
+    try {
+      const releaseGlobal = await this.global.acquire(signal);
+      return () => {
+        releaseGlobal();
+        releaseService?.();
+      };
+    } catch (error) {
+      releaseService?.();
+      throw error;
+    }
+  }
+
+  /**
+   * Feed back the status of a response (429 throttles, 2xx recovers)
+   */
+  onResponse(service: ServiceName, status: number, retryAfterMs?: number): void {
+    if (!this.adaptive) return;
+    const buckets = [this.global, this.services.get(service)];
+    for (const bucket of buckets) {
+      if (status === 429) {
+        bucket?.throttle(retryAfterMs);
+      } else if (status < 400) {
+        bucket?.recover();
+      }
+    }
+  }
+
+  /**
+   * Queue depth, in-flight requests and current rate, globally and per service
+   */
+  getStats(): RateLimitStats {
+    const services: RateLimitStats["services"] = {};
+    this.services.forEach((bucket, service) => {
+      services[service] = bucket.getStats();
+    });
+    return { global: this.global.getStats(), services };
+  }
+}
@@ -0,0 +1,121 @@
+import { toAbortError } from "../../utils/abort";
+
+export interface DedupeStats {
+  /** Calls that joined an identical request already in flight */
+  coalesced: number;
+  /** Distinct requests currently in flight */
+  inFlight: number;
+}
+
+interface Flight {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  /** Callers still waiting; the shared request is cancelled when all have aborted */
+  waiters: number;
+  /** Settles the copies of the callers that joined, once the execution settles */
+  joined: Array<{
+    resolve: (result: unknown) => void;
+    reject: (error: unknown) => void;
+  }>;
+}
+
+/**
+ * Copy a result shared by coalesced callers, so one caller mutating it
+ * cannot change what the others see
+ */
+function copyResult<T>(result: T): T {
+  return typeof structuredClone === "function"
+    ? structuredClone(result)
+    : result;
+}
+
+/**
+ * Single-flight request coalescing: concurrent calls with the same key share
+ * one execution and its outcome. The caller that started the execution gets
+ * the result itself and callers that joined it get their own copy, so only
+ * coalesced results are ever copied.
+ */
+export class RequestDeduplicator {
+  private readonly flights = new Map<string, Flight>();
+  private coalesced = 0;
+
+  /**
+   * Run `execute` for `key`, or join the execution already in flight.
+   * Each caller's `signal` only cancels its own wait; the shared execution
+   * is aborted through the signal it receives once every caller has aborted.
+   */
+  run<T>(
+    key: string,
+    signal: AbortSignal | undefined,
+    execute: (signal: AbortSignal) => Promise<T>
+  ): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(toAbortError(signal));
+    }
+
+    const flight = this.flights.get(key);
+    if (flight) {
+      this.coalesced++;
+      flight.waiters++;
+      const copy = new Promise<unknown>((resolve, reject) =>
+        flight.joined.push({ resolve, reject })
+      );
+      return this.wait(key, flight, copy, signal) as Promise<T>;
+    }
+
+    const controller = new AbortController();
+    const started: Flight = {
+      promise: execute(controller.signal).finally(() => {
+        if (this.flights.get(key) === started) {
+          this.flights.delete(key);
+        }
+      }),
+      controller,
+      waiters: 1,
+      joined: [],
+    };
+    // Registered before any caller awaits, so the copies are taken before
+    // the first caller can mutate the result
+    started.promise.then(
+      (result) => started.joined.forEach((j) => j.resolve(copyResult(result))),
+      (error) => started.joined.forEach((j) => j.reject(error))
+    );
+    this.flights.set(key, started);
+    return this.wait(key, started, started.promise, signal) as Promise<T>;
+  }
+
+  /**
+   * Get the number of coalesced calls so far and the requests in flight
+   */
+  getStats(): DedupeStats {
+    return { coalesced: this.coalesced, inFlight: this.flights.size };
+  }
+
+  private wait(
+    key: string,
+    flight: Flight,
+    result: Promise<unknown>,
+    signal?: AbortSignal
+  ): Promise<unknown> {
+    if (!signal) {
+      return result;
+    }
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        reject(toAbortError(signal));
+        flight.waiters--;
+        if (flight.waiters === 0) {
+          // Later callers start a fresh request instead of joining a cancelled one
+          if (this.flights.get(key) === flight) {
+            this.flights.delete(key);
+          }
+          flight.controller.abort(signal.reason);
+        }
+      };
+      signal.addEventListener("abort", onAbort, { once: true });
+      result
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener("abort", onAbort));
+    });
+  }
+}
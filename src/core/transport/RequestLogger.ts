@@ -1,10 +1,81 @@
+import type { LogFields, Logger } from "../logger";
+import { silentLogger } from "../logger";
+
+const REDACTED = "[REDACTED]";
+
+/**
+ * Header names whose values are credentials
+ */
+const SENSITIVE_HEADERS = ["authorization", "x-api-key", "cookie"];
+
+/**
+ * Query parameters carrying credentials (e.g. WebSocket auth)
+ */
+const SENSITIVE_PARAMS = ["api_key", "token", "jwt"];
+
+/**
+ * Replace credential header values with a placeholder
+ */
+export function redactHeaders(
+  headers: Record<string, string>
+): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    result[name] = SENSITIVE_HEADERS.includes(name.toLowerCase())
+      ? REDACTED
+      : value;
+  }
+  return result;
+}
+
+/**
+ * Replace credential query parameters in a URL with a placeholder
+ */
+export function redactUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    for (const param of SENSITIVE_PARAMS) {
+      if (parsed.searchParams.has(param)) {
+        parsed.searchParams.set(param, REDACTED);
+      }
+    }
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
 /**
- * Request logger for debugging HTTP operations
+ * Replace every value of a record with a placeholder, keeping the keys
+ */
+function redactValues(values: Record<string, any>): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const key of Object.keys(values)) {
+    result[key] = REDACTED;
+  }
+  return result;
+}
+
+/**
+ * Redact the bound args of WHERE clauses
+ */
+function redactWhere(where: any[]): any[] {
+  return where.map((clause) => ({
+    ...clause,
+    args: clause?.args?.map(() => REDACTED),
+  }));
+}
+
+/**
+ * Request logger for HTTP operations, built on the structured Logger.
+ * SQL args, criteria values and credentials are always redacted.
  */
 export class RequestLogger {
+  private readonly logger: Logger;
   private readonly debug: boolean;
 
-  constructor(debug: boolean = false) {
+  constructor(logger: Logger = silentLogger, debug: boolean = false) {
+    this.logger = logger;
     this.debug = debug;
   }
 
@@ -15,18 +86,14 @@ export class RequestLogger {
     method: string,
     path: string,
     duration: number,
-    queryDetails?: string
+    queryDetails?: LogFields | null
   ): void {
-    if (typeof console === "undefined") return;
-
-    const logMessage = `[HttpClient] ${method} ${path} completed in ${duration.toFixed(2)}ms`;
-
-    if (queryDetails && this.debug) {
-      console.log(logMessage);
-      console.log(`[HttpClient]   ${queryDetails}`);
-    } else {
-      console.log(logMessage);
-    }
+    this.logger.debug(`[HttpClient] ${method} ${path} completed`, {
+      method,
+      path,
+      durationMs: Math.round(duration * 100) / 100,
+      ...queryDetails,
+    });
   }
 
   /**
@@ -37,34 +104,59 @@ export class RequestLogger {
     path: string,
     duration: number,
     error: any,
-    queryDetails?: string
+    queryDetails?: LogFields | null
   ): void {
-    if (typeof console === "undefined") return;
+    const fields: LogFields = {
+      method,
+      path,
+      durationMs: Math.round(duration * 100) / 100,
+      httpStatus: error?.httpStatus,
+      code: error?.code,
+      error: error instanceof Error ? error.message : String(error),
+      ...queryDetails,
+    };
 
     // Special handling for 404 on find-one (expected behavior)
     const is404FindOne =
-      path === "/v1/rqlite/find-one" &&
-      error?.httpStatus === 404;
+      path === "/v1/rqlite/find-one" && error?.httpStatus === 404;
 
     if (is404FindOne) {
-      console.warn(
-        `[HttpClient] ${method} ${path} returned 404 after ${duration.toFixed(2)}ms (expected for optional lookups)`
+      this.logger.debug(
+        `[HttpClient] ${method} ${path} returned 404 (expected for optional lookups)`,
+        fields
       );
       return;
     }
 
-    const errorMessage = `[HttpClient] ${method} ${path} failed after ${duration.toFixed(2)}ms:`;
-    console.error(errorMessage, error);
+    this.logger.error(`[HttpClient] ${method} ${path} failed`, fields);
+  }
 
-    if (queryDetails && this.debug) {
-      console.error(`[HttpClient]   ${queryDetails}`);
-    }
+  /**
+   * Log a retry attempt
+   */
+  logRetry(
+    method: string,
+    path: string,
+    attempt: number,
+    maxRetries: number,
+    delayMs: number,
+    error: any
+  ): void {
+    this.logger.warn(`[HttpClient] Retrying ${method} ${path}`, {
+      method,
+      path,
+      attempt,
+      maxRetries,
+      delayMs: Math.round(delayMs),
+      error: error instanceof Error ? error.message : String(error),
+    });
   }
 
   /**
-   * Extract query details from request for logging
+   * Extract query details from request for logging.
+   * Only available in debug mode; values are redacted.
    */
-  extractQueryDetails(path: string, body?: any): string | null {
+  extractQueryDetails(path: string, body?: any): LogFields | null {
     if (!this.debug) return null;
 
     const isRqliteOperation = path.includes("/v1/rqlite/");
@@ -75,35 +167,35 @@ export class RequestLogger {
 
       // Direct SQL query
       if (parsedBody.sql) {
-        let details = `SQL: ${parsedBody.sql}`;
+        const details: LogFields = { sql: parsedBody.sql };
         if (parsedBody.args && parsedBody.args.length > 0) {
-          details += ` | Args: [${parsedBody.args
-            .map((a: any) => (typeof a === "string" ? `"${a}"` : a))
-            .join(", ")}]`;
+          details.args = parsedBody.args.map(() => REDACTED);
         }
         return details;
       }
 
       // Table-based query
       if (parsedBody.table) {
-        let details = `Table: ${parsedBody.table}`;
+        const details: LogFields = { table: parsedBody.table };
         if (parsedBody.criteria && Object.keys(parsedBody.criteria).length > 0) {
-          details += ` | Criteria: ${JSON.stringify(parsedBody.criteria)}`;
+          details.criteria = redactValues(parsedBody.criteria);
         }
         if (parsedBody.options) {
-          details += ` | Options: ${JSON.stringify(parsedBody.options)}`;
+          details.options = Array.isArray(parsedBody.options.where)
+            ? { ...parsedBody.options, where: redactWhere(parsedBody.options.where) }
+            : parsedBody.options;
         }
         if (parsedBody.select) {
-          details += ` | Select: ${JSON.stringify(parsedBody.select)}`;
+          details.select = parsedBody.select;
         }
-        if (parsedBody.where) {
-          details += ` | Where: ${JSON.stringify(parsedBody.where)}`;
+        if (Array.isArray(parsedBody.where)) {
+          details.where = redactWhere(parsedBody.where);
         }
         if (parsedBody.limit) {
-          details += ` | Limit: ${parsedBody.limit}`;
+          details.limit = parsedBody.limit;
         }
         if (parsedBody.offset) {
-          details += ` | Offset: ${parsedBody.offset}`;
+          details.offset = parsedBody.offset;
         }
         return details;
       }
@@ -1,36 +1,143 @@
-import type { IRetryPolicy } from "../interfaces/IRetryPolicy";
-import { SDKError } from "../../errors";
+import type { IRetryPolicy, RetryContext } from "../interfaces/IRetryPolicy";
+import { NetworkError, NotFoundError, SDKError } from "../../errors";
+
+/**
+ * Options for the exponential backoff retry policy
+ */
+export interface ExponentialBackoffOptions {
+  /**
+   * Upper bound for a single backoff delay, including Retry-After (ms). Default: 30000
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Apply full jitter (random delay between 0 and the backoff). Default: true
+   */
+  jitter?: boolean;
+
+  /**
+   * HTTP status codes that may be retried on idempotent requests
+   */
+  retryableStatusCodes?: number[];
+}
+
+/**
+ * Network error codes that indicate a failed connection or socket
+ */
+const RETRYABLE_NETWORK_CODES = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+];
+
+/**
+ * Network error codes where the request never reached the gateway,
+ * so even non-idempotent requests can be resent safely
+ */
+const NOT_SENT_NETWORK_CODES = ["ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN"];
+
+/**
+ * Statuses where the gateway rejected the request without processing it
+ */
+const NOT_PROCESSED_STATUS_CODES = [429, 503];
+
+/**
+ * Extract a Node.js/undici error code from an error or its cause
+ */
+function getNetworkErrorCode(error: any): string | undefined {
+  const source = error instanceof NetworkError ? error.cause : error;
+  return source?.code ?? source?.cause?.code;
+}
+
+/**
+ * Check whether an error proves the gateway did not process the request,
+ * making it safe to resend even when the request is not idempotent
+ */
+export function isUnprocessedError(error: any): boolean {
+  if (error instanceof SDKError && !(error instanceof NetworkError)) {
+    return NOT_PROCESSED_STATUS_CODES.includes(error.httpStatus);
+  }
+  const code = getNetworkErrorCode(error);
+  return !!code && NOT_SENT_NETWORK_CODES.includes(code);
+}
 
 /**
  * Exponential backoff retry policy
- * Retries failed requests with increasing delays
+ * Retries failed requests with exponentially increasing, fully jittered delays.
+ * Honors Retry-After on 429/503 and never blindly retries non-idempotent requests.
  */
 export class ExponentialBackoffRetryPolicy implements IRetryPolicy {
   private readonly maxRetries: number;
   private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly jitter: boolean;
 
   /**
    * HTTP status codes that should trigger a retry
    */
-  private readonly retryableStatusCodes = [408, 429, 500, 502, 503, 504];
+  private readonly retryableStatusCodes: number[];
 
-  constructor(maxRetries: number = 3, baseDelayMs: number = 1000) {
+  constructor(
+    maxRetries: number = 3,
+    baseDelayMs: number = 1000,
+    options: ExponentialBackoffOptions = {}
+  ) {
     this.maxRetries = maxRetries;
     this.baseDelayMs = baseDelayMs;
+    this.maxDelayMs = options.maxDelayMs ?? 30000;
+    this.jitter = options.jitter ?? true;
+    this.retryableStatusCodes = options.retryableStatusCodes ?? [
+      408, 429, 500, 502, 503, 504,
+    ];
   }
 
   /**
    * Determine if request should be retried
    */
-  shouldRetry(error: any, attempt: number): boolean {
+  shouldRetry(error: any, attempt: number, context?: RetryContext): boolean {
     // Don't retry if max attempts reached
     if (attempt >= this.maxRetries) {
       return false;
     }
 
+    const idempotent = context?.idempotent ?? true;
+
+    // Missing keys are sometimes reported as 500; repeating won't find them
+    if (error instanceof NotFoundError) {
+      return false;
+    }
+
+    // Retry connection failures (fetch failed, socket errors)
+    if (error instanceof NetworkError) {
+      return idempotent || isUnprocessedError(error);
+    }
+
     // Retry on retryable HTTP errors
     if (error instanceof SDKError) {
-      return this.retryableStatusCodes.includes(error.httpStatus);
+      if (!this.retryableStatusCodes.includes(error.httpStatus)) {
+        return false;
+      }
+      return idempotent || isUnprocessedError(error);
+    }
+
+    // Never retry cancelled or timed out requests
+    if (error?.name === "AbortError" || error?.name === "TimeoutError") {
+      return false;
+    }
+
+    // Retry raw fetch failures (undici throws TypeError, Node sockets set a code)
+    const code = getNetworkErrorCode(error);
+    if (code && RETRYABLE_NETWORK_CODES.includes(code)) {
+      return idempotent || isUnprocessedError(error);
+    }
+    if (error instanceof TypeError) {
+      return idempotent;
     }
 
     // Don't retry other errors
@@ -38,10 +145,20 @@ export class ExponentialBackoffRetryPolicy implements IRetryPolicy {
   }
 
   /**
-   * Get delay before next retry (exponential backoff)
+   * Get delay before next retry (full-jitter exponential backoff).
+   * A Retry-After value on the error takes precedence.
    */
-  getDelay(attempt: number): number {
-    return this.baseDelayMs * (attempt + 1);
+  getDelay(attempt: number, error?: any): number {
+    if (
+      error instanceof SDKError &&
+      error.retryAfterMs !== undefined &&
+      NOT_PROCESSED_STATUS_CODES.includes(error.httpStatus)
+    ) {
+      return Math.min(error.retryAfterMs, this.maxDelayMs);
+    }
+
+    const backoff = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** attempt);
+    return this.jitter ? Math.random() * backoff : backoff;
   }
 
   /**
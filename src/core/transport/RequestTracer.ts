@@ -0,0 +1,119 @@
+import {
+  SpanAttributes,
+  SpanKind,
+  TraceSpan,
+  Tracer,
+  finishSpan,
+  formatTraceparent,
+  setSpanAttributes,
+} from "../tracing";
+import { getRoute, getServiceName } from "../routes";
+
+/**
+ * Request tracer for HTTP operations.
+ * Starts one client span per logical request (covering retries and failover)
+ * and propagates it to the gateway via the W3C `traceparent` header.
+ */
+export class RequestTracer {
+  private readonly tracer?: Tracer;
+
+  constructor(tracer?: Tracer) {
+    this.tracer = tracer;
+  }
+
+  /**
+   * Start a span for a request; returns undefined when tracing is disabled
+   */
+  startRequest(
+    method: string,
+    path: string,
+    body?: any,
+    query?: Record<string, string | number | boolean>
+  ): TraceSpan | undefined {
+    if (!this.tracer) return undefined;
+
+    const route = getRoute(path);
+    return this.tracer.startSpan(`${method} ${route}`, {
+      kind: SpanKind.CLIENT,
+      attributes: {
+        "http.request.method": method,
+        "http.route": route,
+        "url.path": path.split("?")[0],
+        "debros.service": getServiceName(path),
+        ...this.extractAttributes(path, body, query),
+      },
+    });
+  }
+
+  /**
+   * Inject the span's trace context into outgoing headers
+   */
+  inject(span: TraceSpan | undefined, headers: Record<string, string>): void {
+    if (!span || headers["traceparent"]) return;
+    const traceparent = formatTraceparent(span);
+    if (traceparent) {
+      headers["traceparent"] = traceparent;
+    }
+  }
+
+  /**
+   * End a request span, recording the error if the request failed
+   */
+  end(span: TraceSpan | undefined, error?: any): void {
+    if (!span) return;
+    if (error !== undefined) {
+      setSpanAttributes(span, {
+        "http.response.status_code": error?.httpStatus || undefined,
+        "error.type": error?.code ?? error?.name ?? "Error",
+      });
+    }
+    finishSpan(span, error);
+  }
+
+  /**
+   * Extract resource identifiers (table, dmap, topic, CID, function) from a request
+   */
+  private extractAttributes(
+    path: string,
+    body?: any,
+    query?: Record<string, string | number | boolean>
+  ): SpanAttributes {
+    const attributes: SpanAttributes = {};
+    const payload = body && typeof body === "object" ? body : {};
+    const service = getServiceName(path);
+
+    if (service === "rqlite") {
+      attributes["db.system"] = "rqlite";
+      if (typeof payload.table === "string") {
+        attributes["db.collection.name"] = payload.table;
+      }
+      attributes["db.operation.name"] = path.split("/").pop();
+    }
+    if (service === "cache" && typeof payload.dmap === "string") {
+      attributes["debros.cache.dmap"] = payload.dmap;
+    }
+    if (service === "pubsub") {
+      const searchParams = new URLSearchParams(path.split("?")[1] ?? "");
+      const topic = payload.topic ?? query?.topic ?? searchParams.get("topic");
+      if (topic !== undefined && topic !== null) {
+        attributes["messaging.system"] = "debros";
+        attributes["messaging.destination.name"] = String(topic);
+      }
+    }
+    if (service === "storage") {
+      const cid =
+        payload.cid ?? path.match(/\/v1\/storage\/[^/]+\/([^/?]+)/)?.[1];
+      if (cid) {
+        attributes["debros.storage.cid"] = cid;
+      }
+    }
+    if (service === "functions") {
+      const match = path.match(/\/v1\/invoke\/([^/]+)\/([^/?]+)/);
+      if (match) {
+        attributes["faas.invoked_name"] = match[2];
+        attributes["debros.functions.namespace"] = match[1];
+      }
+    }
+    return attributes;
+  }
+}
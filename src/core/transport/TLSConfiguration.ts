@@ -1,53 +1,181 @@
+import type { ConnectionOptions, PeerCertificate } from "node:tls";
+import type {
+  Agent,
+  RequestInfo as UndiciRequestInfo,
+  RequestInit as UndiciRequestInit,
+} from "undici";
+import { Platform } from "../../utils/platform";
+
+type Pem = string | Uint8Array;
+
+/**
+ * TLS settings for one client's gateway connections (Node.js only).
+ * They apply to the SDK's own HTTP and WebSocket connections and never
+ * change process-wide settings such as NODE_TLS_REJECT_UNAUTHORIZED.
+ */
+export interface TLSOptions {
+  /**
+   * Trusted CA certificates (PEM). Replaces the default root store,
+   * e.g. to trust a private CA or a staging certificate.
+   */
+  ca?: Pem | Pem[];
+
+  /**
+   * Client certificate chain (PEM) for mutual TLS
+   */
+  cert?: Pem | Pem[];
+
+  /**
+   * Private key (PEM) for the client certificate
+   */
+  key?: Pem | Pem[];
+
+  /**
+   * Passphrase for the private key
+   */
+  passphrase?: string;
+
+  /**
+   * SHA-256 fingerprints of accepted server certificates, as hex with or without
+   * colons (e.g. "AB:CD:..."). Checked in addition to normal certificate validation.
+   */
+  pinnedFingerprints?: string[];
+
+  /**
+   * Skip certificate validation entirely. Development only; cannot be
+   * combined with pinnedFingerprints.
+   */
+  insecure?: boolean;
+}
+
 /**
- * TLS Configuration for development/staging environments
- *
- * WARNING: Only use this in development/testing environments!
- * DO NOT disable certificate validation in production.
+ * Fetch bound to a client's TLS settings, with the Agent behind it
+ */
+export interface TLSFetch {
+  fetch: typeof fetch;
+  /** Close the Agent's sockets */
+  close(): Promise<void>;
+}
+
+interface TLSDispatcher {
+  agent: Agent;
+  fetch: typeof fetch;
+}
+
+function normalizeFingerprint(fingerprint: string): string {
+  return fingerprint.replace(/:/g, "").toUpperCase();
+}
+
+/**
+ * Per-client TLS configuration. Builds a fetch bound to a dedicated undici
+ * Agent and the matching WebSocket options; undici and node:tls are only
+ * loaded when TLS options are set.
  */
 export class TLSConfiguration {
   /**
-   * Create fetch function with proper TLS configuration
+   * Create a fetch function applying `options` to its connections.
+   * Without options this is the global fetch.
    */
-  static createFetchWithTLSConfig(): typeof fetch {
-    // Only allow insecure TLS in development
-    if (this.shouldAllowInsecure()) {
-      this.configureInsecureTLS();
+  static createFetchWithTLSConfig(options?: TLSOptions): typeof fetch {
+    return this.createTLSFetch(options).fetch;
+  }
+
+  /**
+   * Same as createFetchWithTLSConfig(), plus a close() for the undici
+   * Agent's sockets. Without options close() is a no-op.
+   */
+  static createTLSFetch(options?: TLSOptions): TLSFetch {
+    if (!options) {
+      return { fetch: globalThis.fetch, close: async () => {} };
     }
+    this.validate(options);
 
-    return globalThis.fetch;
+    let loaded: Promise<TLSDispatcher> | undefined;
+    return {
+      fetch: async (input, init) => {
+        loaded ??= this.loadDispatcher(options);
+        const { fetch: tlsFetch } = await loaded;
+        return tlsFetch(input, init);
+      },
+      close: async () => {
+        // Nothing to close if no request was made or the agent failed to load
+        const dispatcher = await loaded?.catch(() => undefined);
+        await dispatcher?.agent.close();
+      },
+    };
   }
 
   /**
-   * Check if insecure TLS should be allowed
+   * Options for the `ws` WebSocket constructor applying `options`
    */
-  private static shouldAllowInsecure(): boolean {
-    // Check if we're in Node.js environment
-    if (typeof process === "undefined" || !process.versions?.node) {
-      return false;
-    }
+  static async webSocketOptions(
+    options: TLSOptions
+  ): Promise<Record<string, unknown>> {
+    this.validate(options);
+    return { ...(await this.connectOptions(options)) };
+  }
 
-    // Only allow in non-production with explicit flag
-    const isProduction = process.env.NODE_ENV === "production";
-    const allowInsecure = process.env.DEBROS_ALLOW_INSECURE_TLS === "true";
+  /**
+   * Reject option combinations that cannot be honoured
+   */
+  static validate(options: TLSOptions): void {
+    if (!Platform.isNode()) {
+      throw new Error("The tls option is only supported in Node.js");
+    }
+    if (options.insecure && options.pinnedFingerprints?.length) {
+      throw new Error(
+        "tls.insecure cannot be combined with tls.pinnedFingerprints; trust the certificate via tls.ca instead"
+      );
+    }
+  }
 
-    return !isProduction && allowInsecure;
+  private static async loadDispatcher(
+    options: TLSOptions
+  ): Promise<TLSDispatcher> {
+    const [undici, connect] = await Promise.all([
+      import(/* webpackIgnore: true */ /* @vite-ignore */ "undici"),
+      this.connectOptions(options),
+    ]);
+    const agent = new undici.Agent({ connect });
+    return {
+      agent,
+      // undici's fetch types mirror the DOM ones but are declared separately
+      fetch: (input, init) =>
+        undici.fetch(input as UndiciRequestInfo, {
+          ...(init as UndiciRequestInit),
+          dispatcher: agent,
+        }) as unknown as Promise<Response>,
+    };
   }
 
   /**
-   * Configure Node.js to allow insecure TLS
-   * WARNING: Only call in development!
+   * Socket connect options (node:tls) applying `options`
    */
-  private static configureInsecureTLS(): void {
-    if (typeof process !== "undefined" && process.env) {
-      // Allow self-signed/staging certificates for development
-      process.env.NODE_TLS_REJECT_UNAUTHORIZED = "0";
+  static async connectOptions(options: TLSOptions): Promise<ConnectionOptions> {
+    const tls = await import("node:tls");
+    const pins = options.pinnedFingerprints?.map(normalizeFingerprint) ?? [];
 
-      if (typeof console !== "undefined") {
-        console.warn(
-          "[TLSConfiguration] WARNING: TLS certificate validation disabled for development. " +
-          "DO NOT use in production!"
-        );
-      }
+    const connect: ConnectionOptions = {
+      ca: options.ca as ConnectionOptions["ca"],
+      cert: options.cert as ConnectionOptions["cert"],
+      key: options.key as ConnectionOptions["key"],
+      passphrase: options.passphrase,
+      rejectUnauthorized: !options.insecure,
+    };
+    if (pins.length > 0) {
+      connect.checkServerIdentity = (host: string, cert: PeerCertificate) => {
+        const error = tls.checkServerIdentity(host, cert);
+        if (error) {
+          return error;
+        }
+        if (!pins.includes(normalizeFingerprint(cert.fingerprint256))) {
+          return new Error(
+            `Certificate for ${host} (${cert.fingerprint256}) does not match a pinned fingerprint`
+          );
+        }
+        return undefined;
+      };
     }
+    return connect;
   }
 }
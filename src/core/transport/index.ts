@@ -1,4 +1,14 @@
 export { PathBasedAuthStrategy } from "./AuthHeaderStrategy";
-export { ExponentialBackoffRetryPolicy } from "./RequestRetryPolicy";
-export { RequestLogger } from "./RequestLogger";
+export { ExponentialBackoffRetryPolicy, isUnprocessedError } from "./RequestRetryPolicy";
+export { RequestTracer } from "./RequestTracer";
+export { RequestLogger, redactHeaders, redactUrl } from "./RequestLogger";
 export { TLSConfiguration } from "./TLSConfiguration";
+export { ConnectionPool } from "./ConnectionPool";
+export { BodyEncoder } from "./BodyEncoder";
+export { RequestDeduplicator } from "./RequestDeduplicator";
+export { HttpCache, MemoryHttpCacheStore, StorageHttpCacheStore } from "./HttpCache";
+export { OfflineQueue, isOfflineError } from "./OfflineQueue";
+export { HealthMonitor } from "./HealthMonitor";
+export { GatewayPool } from "./GatewayPool";
+export { CircuitBreaker } from "./CircuitBreaker";
+export { RateLimiter } from "./RateLimiter";
@@ -0,0 +1,191 @@
+import { ResponseValidationError, ValidationIssue } from "../errors";
+
+type StandardPathSegment = PropertyKey | { readonly key: PropertyKey };
+
+type StandardResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | {
+      readonly issues: ReadonlyArray<{
+        readonly message: string;
+        readonly path?: ReadonlyArray<StandardPathSegment>;
+      }>;
+    };
+
+/**
+ * Standard Schema v1 (https://standardschema.dev), implemented by zod 3.24+,
+ * valibot, arktype and others
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown
+    ) => StandardResult<Output> | Promise<StandardResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output };
+  };
+}
+
+/**
+ * Schema with a zod-style `safeParse` (older zod versions)
+ */
+export interface SafeParseSchema<Output> {
+  safeParse(
+    value: unknown
+  ):
+    | { success: true; data: Output }
+    | {
+        success: false;
+        error: {
+          message: string;
+          issues?: Array<{ message: string; path?: Array<string | number> }>;
+        };
+      };
+}
+
+/**
+ * Validator for a response: a Standard Schema, a zod-style schema, or a
+ * function that returns the typed value and throws when it is invalid
+ */
+export type ResponseSchema<Output = unknown> =
+  | StandardSchemaV1<unknown, Output>
+  | SafeParseSchema<Output>
+  | ((value: unknown) => Output);
+
+/**
+ * Per-call option for methods that can validate their response
+ */
+export interface SchemaOptions<Output> {
+  /**
+   * Validate (and type) the response at runtime. Mismatches reject with a
+   * ResponseValidationError listing every issue.
+   */
+  schema?: ResponseSchema<Output>;
+}
+
+/**
+ * Run `value` through `schema`, returning the validated output
+ *
+ * @param label - Describes the response in error messages, e.g. "POST /v1/rqlite/query"
+ * @param path - Location of `value` within the response body, prefixed to issue paths
+ */
+export async function validateResponse<Output>(
+  schema: ResponseSchema<Output>,
+  value: unknown,
+  label: string,
+  path: Array<string | number> = []
+): Promise<Output> {
+  const result = await runSchema(schema, value);
+  if ("issues" in result) {
+    throw validationError(label, prefixIssues(result.issues, path), value);
+  }
+  return result.value;
+}
+
+/**
+ * Validate every element of an array response against `schema`.
+ * Issues from all elements are reported together, prefixed with their index.
+ */
+export async function validateEach<Output>(
+  schema: ResponseSchema<Output>,
+  value: unknown,
+  label: string,
+  path: Array<string | number> = []
+): Promise<Output[]> {
+  if (!Array.isArray(value)) {
+    throw validationError(
+      label,
+      prefixIssues([{ message: "Expected an array" }], path),
+      value
+    );
+  }
+
+  const results = await Promise.all(
+    value.map((item) => runSchema(schema, item))
+  );
+  const issues = results.flatMap((result, index) =>
+    "issues" in result ? prefixIssues(result.issues, [...path, index]) : []
+  );
+  if (issues.length > 0) {
+    throw validationError(label, issues, value);
+  }
+  return results.map((result) => (result as { value: Output }).value);
+}
+
+async function runSchema<Output>(
+  schema: ResponseSchema<Output>,
+  value: unknown
+): Promise<{ value: Output } | { issues: ValidationIssue[] }> {
+  if (typeof schema === "function") {
+    try {
+      return { value: schema(value) };
+    } catch (error) {
+      return {
+        issues: [
+          { message: error instanceof Error ? error.message : String(error) },
+        ],
+      };
+    }
+  }
+
+  if ("~standard" in schema) {
+    const result = await schema["~standard"].validate(value);
+    if (!result.issues) {
+      return { value: result.value };
+    }
+    return {
+      issues: result.issues.map((issue) => ({
+        message: issue.message,
+        path: issue.path?.map(toPathKey),
+      })),
+    };
+  }
+
+  const result = schema.safeParse(value);
+  if (result.success) {
+    return { value: result.data };
+  }
+  return {
+    issues: result.error.issues?.map(({ message, path }) => ({
+      message,
+      path,
+    })) ?? [{ message: result.error.message }],
+  };
+}
+
+function prefixIssues(
+  issues: ValidationIssue[],
+  path: Array<string | number>
+): ValidationIssue[] {
+  if (path.length === 0) {
+    return issues;
+  }
+  return issues.map((issue) => ({
+    ...issue,
+    path: [...path, ...(issue.path ?? [])],
+  }));
+}
+
+function validationError(
+  label: string,
+  issues: ValidationIssue[],
+  response: unknown
+): ResponseValidationError {
+  return new ResponseValidationError(
+    `Invalid response from ${label}: ${issues.map(formatIssue).join("; ")}`,
+    issues,
+    { response }
+  );
+}
+
+function toPathKey(segment: StandardPathSegment): string | number {
+  const key =
+    typeof segment === "object" && segment !== null ? segment.key : segment;
+  return typeof key === "number" ? key : String(key);
+}
+
+function formatIssue(issue: ValidationIssue): string {
+  return issue.path?.length
+    ? `${issue.path.join(".")}: ${issue.message}`
+    : issue.message;
+}
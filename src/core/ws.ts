@@ -1,6 +1,13 @@
 import WebSocket from "isomorphic-ws";
-import { SDKError } from "../errors";
+import { NetworkError, TimeoutError } from "../errors";
 import { NetworkErrorCallback } from "./http";
+import { Logger, silentLogger } from "./logger";
+import { redactUrl } from "./transport/RequestLogger";
+import { SpanKind, Tracer, finishSpan } from "./tracing";
+import type { MetricsSink } from "../metrics/types";
+import { getServiceName } from "./routes";
+import { utf8ByteLength } from "../utils/bytes";
+import { TLSConfiguration, TLSOptions } from "./transport/TLSConfiguration";
 
 export interface WSClientConfig {
   wsURL: string;
@@ -12,6 +19,22 @@ export interface WSClientConfig {
    * Use this to trigger gateway failover at the application layer.
    */
   onNetworkError?: NetworkErrorCallback;
+  /**
+   * Structured logger for connection diagnostics. Default: silent
+   */
+  logger?: Logger;
+  /**
+   * OpenTelemetry-compatible tracer; connection attempts get a client span
+   */
+  tracer?: Tracer;
+  /**
+   * Metrics sink fed with connection events and message bytes
+   */
+  metrics?: MetricsSink;
+  /**
+   * TLS settings for wss:// connections (Node.js only)
+   */
+  tls?: TLSOptions;
 }
 
 export type WSMessageHandler = (data: string) => void;
@@ -30,6 +53,12 @@ export class WSClient {
   private authToken?: string;
   private WebSocketClass: typeof WebSocket;
   private onNetworkError?: NetworkErrorCallback;
+  private logger: Logger;
+  private tracer?: Tracer;
+  private metrics?: MetricsSink;
+  private service: string;
+  private tls?: TLSOptions;
+  private socketOptions?: Promise<Record<string, unknown>>;
 
   private ws?: WebSocket;
   private messageHandlers: Set<WSMessageHandler> = new Set();
@@ -44,6 +73,11 @@ export class WSClient {
     this.authToken = config.authToken;
     this.WebSocketClass = config.WebSocket ?? WebSocket;
     this.onNetworkError = config.onNetworkError;
+    this.logger = config.logger ?? silentLogger;
+    this.tracer = config.tracer;
+    this.metrics = config.metrics;
+    this.service = getServiceName(this.wsURL);
+    this.tls = config.tls;
   }
 
   /**
@@ -64,15 +98,46 @@ export class WSClient {
    * Connect to WebSocket server
    */
   connect(): Promise<void> {
-    return new Promise((resolve, reject) => {
+    if (this.tls) {
+      // Resolve TLS options (loads node:tls) before opening the socket
+      this.socketOptions ??= TLSConfiguration.webSocketOptions(this.tls).catch(
+        (error) => {
+          // Let the next connect() try again
+          this.socketOptions = undefined;
+          throw error;
+        }
+      );
+      return this.socketOptions.then((options) => this.open(options));
+    }
+    return this.open();
+  }
+
+  private open(socketOptions?: Record<string, unknown>): Promise<void> {
+    // The connect span ends once, on the first open/error/timeout
+    let span = this.startConnectSpan();
+    const endSpan = (error?: unknown) => {
+      finishSpan(span, error);
+      span = undefined;
+    };
+    return new Promise<void>((resolve, reject) => {
       try {
         const wsUrl = this.buildWSUrl();
-        this.ws = new this.WebSocketClass(wsUrl);
+        this.ws = socketOptions
+          ? new this.WebSocketClass(wsUrl, undefined, socketOptions)
+          : new this.WebSocketClass(wsUrl);
         this.isClosed = false;
 
         const timeout = setTimeout(() => {
           this.ws?.close();
-          const error = new SDKError("WebSocket connection timeout", 408, "WS_TIMEOUT");
+          const error = new TimeoutError(
+            "WebSocket connection timeout",
+            408,
+            "WS_TIMEOUT"
+          );
+          this.metrics?.recordWebSocket({
+            service: this.service,
+            event: "connect_error",
+          });
 
           // Call the network error callback if configured
           if (this.onNetworkError) {
@@ -84,25 +149,57 @@ export class WSClient {
             });
           }
 
+          endSpan(error);
           reject(error);
         }, this.timeout);
 
         this.ws.addEventListener("open", () => {
           clearTimeout(timeout);
-          console.log("[WSClient] Connected to", this.wsURL);
+          this.logger.debug("[WSClient] Connected", {
+            url: redactUrl(this.wsURL),
+          });
+          this.metrics?.recordWebSocket({
+            service: this.service,
+            event: "connect",
+          });
           this.openHandlers.forEach((handler) => handler());
+          endSpan();
           resolve();
         });
 
         this.ws.addEventListener("message", (event: Event) => {
           const msgEvent = event as MessageEvent;
+          if (this.metrics) {
+            this.metrics.recordWebSocket({
+              service: this.service,
+              event: "message_in",
+              bytes:
+                typeof msgEvent.data === "string"
+                  ? utf8ByteLength(msgEvent.data)
+                  : msgEvent.data?.byteLength ?? msgEvent.data?.size ?? 0,
+            });
+          }
           this.messageHandlers.forEach((handler) => handler(msgEvent.data));
         });
 
         this.ws.addEventListener("error", (event: Event) => {
-          console.error("[WSClient] WebSocket error:", event);
+          this.logger.error("[WSClient] WebSocket error", {
+            url: redactUrl(this.wsURL),
+            error: (event as ErrorEvent).message,
+          });
           clearTimeout(timeout);
-          const error = new SDKError("WebSocket error", 500, "WS_ERROR", event);
+          const error = new NetworkError(
+            "WebSocket error",
+            500,
+            "WS_ERROR",
+            event
+          );
+          if (!this.isConnected()) {
+            this.metrics?.recordWebSocket({
+              service: this.service,
+              event: "connect_error",
+            });
+          }
 
           // Call the network error callback if configured
           if (this.onNetworkError) {
@@ -115,20 +212,46 @@ export class WSClient {
           }
 
           this.errorHandlers.forEach((handler) => handler(error));
+          endSpan(error);
           reject(error);
         });
 
         this.ws.addEventListener("close", () => {
           clearTimeout(timeout);
-          console.log("[WSClient] Connection closed");
+          this.metrics?.recordWebSocket({
+            service: this.service,
+            event: "close",
+          });
+          this.logger.debug("[WSClient] Connection closed", {
+            url: redactUrl(this.wsURL),
+          });
           this.closeHandlers.forEach((handler) => handler());
         });
       } catch (error) {
+        endSpan(error);
         reject(error);
       }
     });
   }
 
+  private startConnectSpan() {
+    if (!this.tracer) return undefined;
+    let topic: string | null = null;
+    try {
+      topic = new URL(this.wsURL).searchParams.get("topic");
+    } catch {
+      // Relative or malformed URL - no topic attribute
+    }
+    return this.tracer.startSpan("WS connect", {
+      kind: SpanKind.CLIENT,
+      attributes: {
+        "network.protocol.name": "websocket",
+        "url.full": redactUrl(this.wsURL),
+        "messaging.destination.name": topic ?? undefined,
+      },
+    });
+  }
+
   /**
    * Build WebSocket URL with auth token
    */
@@ -206,9 +329,18 @@ export class WSClient {
    */
   send(data: string): void {
     if (this.ws?.readyState !== WebSocket.OPEN) {
-      throw new SDKError("WebSocket is not connected", 500, "WS_NOT_CONNECTED");
+      throw new NetworkError(
+        "WebSocket is not connected",
+        500,
+        "WS_NOT_CONNECTED"
+      );
     }
     this.ws.send(data);
+    this.metrics?.recordWebSocket({
+      service: this.service,
+      event: "message_out",
+      bytes: utf8ByteLength(data),
+    });
   }
 
   /**
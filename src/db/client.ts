@@ -1,4 +1,5 @@
-import { HttpClient } from "../core/http";
+import { CallOptions, HttpClient, MutationOptions } from "../core/http";
+import { SchemaOptions, validateEach } from "../core/validation";
 import { QueryBuilder } from "./qb";
 import { Repository } from "./repository";
 import {
@@ -21,19 +22,37 @@ export class DBClient {
    */
   async exec(
     sql: string,
-    args: any[] = []
+    args: any[] = [],
+    options: MutationOptions = {}
   ): Promise<{ rows_affected: number; last_insert_id?: number }> {
-    return this.httpClient.post("/v1/rqlite/exec", { sql, args });
+    return this.httpClient.post(
+      "/v1/rqlite/exec",
+      { sql, args },
+      { ...options, idempotencyKey: options.idempotencyKey ?? true }
+    );
   }
 
   /**
    * Execute a SELECT query.
+   * Pass `schema` to validate and type each row; a missing `items` array then
+   * fails validation instead of returning [].
    */
-  async query<T = any>(sql: string, args: any[] = []): Promise<T[]> {
+  async query<T = any>(
+    sql: string,
+    args: any[] = [],
+    options: CallOptions & SchemaOptions<T> = {}
+  ): Promise<T[]> {
+    const { schema, ...callOptions } = options;
     const response = await this.httpClient.post<QueryResponse>(
       "/v1/rqlite/query",
-      { sql, args }
+      { sql, args },
+      { ...callOptions, idempotent: true }
     );
+    if (schema) {
+      return validateEach(schema, response.items, "POST /v1/rqlite/query", [
+        "items",
+      ]);
+    }
     return response.items || [];
   }
 
@@ -43,7 +62,8 @@ export class DBClient {
   async find<T = any>(
     table: string,
     criteria: Record<string, any> = {},
-    options: FindOptions = {}
+    options: FindOptions = {},
+    callOptions: CallOptions = {}
   ): Promise<T[]> {
     const response = await this.httpClient.post<QueryResponse>(
       "/v1/rqlite/find",
@@ -51,7 +71,8 @@ export class DBClient {
         table,
         criteria,
         options,
-      }
+      },
+      { ...callOptions, idempotent: true }
     );
     return response.items || [];
   }
@@ -61,12 +82,17 @@ export class DBClient {
    */
   async findOne<T = any>(
     table: string,
-    criteria: Record<string, any>
+    criteria: Record<string, any>,
+    options: CallOptions = {}
   ): Promise<T | null> {
-    return this.httpClient.post<T | null>("/v1/rqlite/find-one", {
-      table,
-      criteria,
-    });
+    return this.httpClient.post<T | null>(
+      "/v1/rqlite/find-one",
+      {
+        table,
+        criteria,
+      },
+      { ...options, idempotent: true }
+    );
   }
 
   /**
@@ -91,14 +117,16 @@ export class DBClient {
    */
   async transaction(
     ops: TransactionOp[],
-    returnResults = true
+    returnResults = true,
+    options: MutationOptions = {}
   ): Promise<any[]> {
     const response = await this.httpClient.post<{ results?: any[] }>(
       "/v1/rqlite/transaction",
       {
         ops,
         return_results: returnResults,
-      }
+      },
+      { ...options, idempotencyKey: options.idempotencyKey ?? true }
     );
     return response.results || [];
   }
@@ -106,21 +134,21 @@ export class DBClient {
   /**
    * Create a table from DDL SQL.
    */
-  async createTable(schema: string): Promise<void> {
-    await this.httpClient.post("/v1/rqlite/create-table", { schema });
+  async createTable(schema: string, options: CallOptions = {}): Promise<void> {
+    await this.httpClient.post("/v1/rqlite/create-table", { schema }, options);
   }
 
   /**
    * Drop a table.
    */
-  async dropTable(table: string): Promise<void> {
-    await this.httpClient.post("/v1/rqlite/drop-table", { table });
+  async dropTable(table: string, options: CallOptions = {}): Promise<void> {
+    await this.httpClient.post("/v1/rqlite/drop-table", { table }, options);
   }
 
   /**
    * Get current database schema.
    */
-  async getSchema(): Promise<any> {
-    return this.httpClient.get("/v1/rqlite/schema");
+  async getSchema(options: CallOptions = {}): Promise<any> {
+    return this.httpClient.get("/v1/rqlite/schema", options);
   }
 }
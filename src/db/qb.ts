@@ -1,4 +1,4 @@
-import { HttpClient } from "../core/http";
+import { CallOptions, HttpClient } from "../core/http";
 import { SelectOptions, QueryResponse } from "./types";
 
 export class QueryBuilder {
@@ -70,18 +70,19 @@ export class QueryBuilder {
     return this;
   }
 
-  async getMany<T = any>(ctx?: any): Promise<T[]> {
+  async getMany<T = any>(ctx?: CallOptions): Promise<T[]> {
     const response = await this.httpClient.post<QueryResponse>(
       "/v1/rqlite/select",
       {
         table: this.table,
         ...this.options,
-      }
+      },
+      { ...ctx, idempotent: true }
     );
     return response.items || [];
   }
 
-  async getOne<T = any>(ctx?: any): Promise<T | null> {
+  async getOne<T = any>(ctx?: CallOptions): Promise<T | null> {
     const response = await this.httpClient.post<QueryResponse>(
       "/v1/rqlite/select",
       {
@@ -89,13 +90,14 @@ export class QueryBuilder {
         ...this.options,
         one: true,
         limit: 1,
-      }
+      },
+      { ...ctx, idempotent: true }
     );
     const items = response.items || [];
     return items.length > 0 ? items[0] : null;
   }
 
-  async count(): Promise<number> {
+  async count(ctx?: CallOptions): Promise<number> {
     const response = await this.httpClient.post<QueryResponse>(
       "/v1/rqlite/select",
       {
@@ -103,7 +105,8 @@ export class QueryBuilder {
         select: ["COUNT(*) AS count"],
         where: this.options.where,
         one: true,
-      }
+      },
+      { ...ctx, idempotent: true }
     );
     const items = response.items || [];
     return items.length > 0 ? items[0].count : 0;
@@ -1,7 +1,12 @@
-import { HttpClient } from "../core/http";
+import {
+  CallOptions,
+  HttpClient,
+  HttpRequestOptions,
+  MutationOptions,
+} from "../core/http";
 import { QueryBuilder } from "./qb";
 import { QueryResponse, FindOptions } from "./types";
-import { SDKError } from "../errors";
+import { NotFoundError, ValidationError } from "../errors";
 
 export class Repository<T extends Record<string, any>> {
   private httpClient: HttpClient;
@@ -20,7 +25,8 @@ export class Repository<T extends Record<string, any>> {
 
   async find(
     criteria: Record<string, any> = {},
-    options: FindOptions = {}
+    options: FindOptions = {},
+    callOptions: CallOptions = {}
   ): Promise<T[]> {
     const response = await this.httpClient.post<QueryResponse>(
       "/v1/rqlite/find",
@@ -28,42 +34,55 @@ export class Repository<T extends Record<string, any>> {
         table: this.tableName,
         criteria,
         options,
-      }
+      },
+      { ...callOptions, idempotent: true }
     );
     return response.items || [];
   }
 
-  async findOne(criteria: Record<string, any>): Promise<T | null> {
+  async findOne(
+    criteria: Record<string, any>,
+    options: CallOptions = {}
+  ): Promise<T | null> {
     try {
       const response = await this.httpClient.post<T | null>(
         "/v1/rqlite/find-one",
         {
           table: this.tableName,
           criteria,
-        }
+        },
+        { ...options, idempotent: true }
       );
       return response;
     } catch (error) {
       // Return null if not found instead of throwing
-      if (error instanceof SDKError && error.httpStatus === 404) {
+      if (error instanceof NotFoundError) {
         return null;
       }
       throw error;
     }
   }
 
-  async save(entity: T): Promise<T> {
+  async save(entity: T, options: MutationOptions = {}): Promise<T> {
     const pkValue = entity[this.primaryKey];
+    const requestOptions: HttpRequestOptions = {
+      ...options,
+      idempotencyKey: options.idempotencyKey ?? true,
+    };
 
     if (!pkValue) {
       // INSERT
       const response = await this.httpClient.post<{
         rows_affected: number;
         last_insert_id: number;
-      }>("/v1/rqlite/exec", {
-        sql: this.buildInsertSql(entity),
-        args: this.buildInsertArgs(entity),
-      });
+      }>(
+        "/v1/rqlite/exec",
+        {
+          sql: this.buildInsertSql(entity),
+          args: this.buildInsertArgs(entity),
+        },
+        requestOptions
+      );
 
       if (response.last_insert_id) {
         (entity as any)[this.primaryKey] = response.last_insert_id;
@@ -71,28 +90,39 @@ export class Repository<T extends Record<string, any>> {
       return entity;
     } else {
       // UPDATE
-      await this.httpClient.post("/v1/rqlite/exec", {
-        sql: this.buildUpdateSql(entity),
-        args: this.buildUpdateArgs(entity),
-      });
+      await this.httpClient.post(
+        "/v1/rqlite/exec",
+        {
+          sql: this.buildUpdateSql(entity),
+          args: this.buildUpdateArgs(entity),
+        },
+        requestOptions
+      );
       return entity;
     }
   }
 
-  async remove(entity: T | Record<string, any>): Promise<void> {
+  async remove(
+    entity: T | Record<string, any>,
+    options: MutationOptions = {}
+  ): Promise<void> {
     const pkValue = entity[this.primaryKey];
     if (!pkValue) {
-      throw new SDKError(
+      throw new ValidationError(
         `Primary key "${this.primaryKey}" is required for remove`,
         400,
         "MISSING_PK"
       );
     }
 
-    await this.httpClient.post("/v1/rqlite/exec", {
-      sql: `DELETE FROM ${this.tableName} WHERE ${this.primaryKey} = ?`,
-      args: [pkValue],
-    });
+    await this.httpClient.post(
+      "/v1/rqlite/exec",
+      {
+        sql: `DELETE FROM ${this.tableName} WHERE ${this.primaryKey} = ?`,
+        args: [pkValue],
+      },
+      { ...options, idempotencyKey: options.idempotencyKey ?? true }
+    );
   }
 
   private buildInsertSql(entity: T): string {
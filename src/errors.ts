@@ -1,7 +1,18 @@
+import { getRoutePrefix } from "./core/routes";
+
+/**
+ * Statuses that usually indicate a transient condition
+ */
+const RETRYABLE_STATUS_CODES = [408, 429, 500, 502, 503, 504];
+
 export class SDKError extends Error {
   public readonly httpStatus: number;
   public readonly code: string;
   public readonly details: Record<string, any>;
+  /**
+   * Delay requested by the gateway via the Retry-After header (ms)
+   */
+  public retryAfterMs?: number;
 
   constructor(
     message: string,
@@ -16,14 +27,34 @@ export class SDKError extends Error {
     this.details = details;
   }
 
+  /**
+   * Whether the same call may succeed if repeated later
+   */
+  get isRetryable(): boolean {
+    return RETRYABLE_STATUS_CODES.includes(this.httpStatus);
+  }
+
+  /**
+   * Build the error subclass matching a gateway error response.
+   * `path` is the gateway route that answered, used for backend quirks.
+   */
   static fromResponse(
     status: number,
     body: any,
-    message?: string
+    message?: string,
+    headers?: Headers,
+    path?: string
   ): SDKError {
     const errorMsg = message || body?.error || `HTTP ${status}`;
     const code = body?.code || `HTTP_${status}`;
-    return new SDKError(errorMsg, status, code, body);
+    const error = new (errorClassFor(status, errorMsg, path))(
+      errorMsg,
+      status,
+      code,
+      body
+    );
+    error.retryAfterMs = parseRetryAfter(headers?.get("retry-after"));
+    return error;
   }
 
   toJSON() {
@@ -33,6 +64,322 @@ export class SDKError extends Error {
       httpStatus: this.httpStatus,
       code: this.code,
       details: this.details,
+      isRetryable: this.isRetryable,
     };
   }
 }
+
+/**
+ * The requested resource (row, cache key, CID, function) does not exist
+ */
+export class NotFoundError extends SDKError {
+  constructor(
+    message: string,
+    httpStatus: number = 404,
+    code: string = "NOT_FOUND",
+    details: Record<string, any> = {}
+  ) {
+    super(message, httpStatus, code, details);
+    this.name = "NotFoundError";
+  }
+
+  get isRetryable(): boolean {
+    return false;
+  }
+}
+
+/**
+ * Missing, invalid or insufficient credentials (401/403)
+ */
+export class AuthError extends SDKError {
+  constructor(
+    message: string,
+    httpStatus: number = 401,
+    code: string = "UNAUTHORIZED",
+    details: Record<string, any> = {}
+  ) {
+    super(message, httpStatus, code, details);
+    this.name = "AuthError";
+  }
+}
+
+/**
+ * The gateway is throttling requests (429). `retryAfterMs` carries its Retry-After.
+ */
+export class RateLimitError extends SDKError {
+  constructor(
+    message: string,
+    httpStatus: number = 429,
+    code: string = "RATE_LIMITED",
+    details: Record<string, any> = {}
+  ) {
+    super(message, httpStatus, code, details);
+    this.name = "RateLimitError";
+  }
+
+  get isRetryable(): boolean {
+    return true;
+  }
+}
+
+/**
+ * The request or connection did not complete in time
+ */
+export class TimeoutError extends SDKError {
+  constructor(
+    message: string,
+    httpStatus: number = 408,
+    code: string = "TIMEOUT",
+    details: Record<string, any> = {}
+  ) {
+    super(message, httpStatus, code, details);
+    this.name = "TimeoutError";
+  }
+
+  get isRetryable(): boolean {
+    // An exceeded deadline is the caller's budget, not a slow gateway
+    return this.code !== "DEADLINE_EXCEEDED";
+  }
+}
+
+/**
+ * The gateway could not be reached or the connection failed.
+ * `cause` holds the underlying fetch or socket error.
+ */
+export class NetworkError extends SDKError {
+  public readonly cause?: unknown;
+
+  constructor(
+    message: string,
+    httpStatus: number = 0,
+    code: string = "NETWORK_ERROR",
+    details: Record<string, any> = {},
+    cause?: unknown
+  ) {
+    super(message, httpStatus, code, details);
+    this.name = "NetworkError";
+    this.cause = cause;
+  }
+
+  get isRetryable(): boolean {
+    return true;
+  }
+
+  /**
+   * Wrap a native fetch/socket failure
+   */
+  static fromError(error: unknown): NetworkError {
+    if (error instanceof NetworkError) {
+      return error;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return new NetworkError(message, 0, "NETWORK_ERROR", {}, error);
+  }
+}
+
+/**
+ * The write conflicts with the current state (409)
+ */
+export class ConflictError extends SDKError {
+  constructor(
+    message: string,
+    httpStatus: number = 409,
+    code: string = "CONFLICT",
+    details: Record<string, any> = {}
+  ) {
+    super(message, httpStatus, code, details);
+    this.name = "ConflictError";
+  }
+}
+
+/**
+ * The request was rejected as malformed or invalid (400/422)
+ */
+export class ValidationError extends SDKError {
+  constructor(
+    message: string,
+    httpStatus: number = 400,
+    code: string = "VALIDATION_ERROR",
+    details: Record<string, any> = {}
+  ) {
+    super(message, httpStatus, code, details);
+    this.name = "ValidationError";
+  }
+}
+
+/**
+ * A single problem found while validating a response
+ */
+export interface ValidationIssue {
+  message: string;
+  /** Location in the response, e.g. ["items", 0, "id"] */
+  path?: Array<string | number>;
+}
+
+/**
+ * The gateway answered, but the response did not match the expected schema
+ */
+export class ResponseValidationError extends SDKError {
+  public readonly issues: ValidationIssue[];
+
+  constructor(
+    message: string,
+    issues: ValidationIssue[],
+    details: Record<string, any> = {}
+  ) {
+    super(message, 0, "RESPONSE_VALIDATION_ERROR", details);
+    this.name = "ResponseValidationError";
+    this.issues = issues;
+  }
+
+  get isRetryable(): boolean {
+    return false;
+  }
+}
+
+/**
+ * The client configuration is invalid; thrown by createClient before any
+ * request is made. `issues` lists every problem found.
+ */
+export class ConfigurationError extends SDKError {
+  public readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(
+      `Invalid client configuration: ${issues.join("; ")}`,
+      0,
+      "INVALID_CONFIG",
+      { issues }
+    );
+    this.name = "ConfigurationError";
+    this.issues = issues;
+  }
+
+  get isRetryable(): boolean {
+    return false;
+  }
+}
+
+/**
+ * The gateway was unreachable, so the mutation was stored in the offline queue
+ * and will be replayed once the gateway is healthy again. `cause` is the
+ * failure that triggered queueing; it is absent when the call was queued
+ * behind earlier mutations without being sent.
+ */
+export class OfflineQueuedError extends SDKError {
+  /**
+   * Id of the queued mutation, as passed to the offline queue callbacks
+   */
+  public readonly mutationId: string;
+  public readonly cause?: unknown;
+
+  constructor(mutationId: string, cause?: unknown) {
+    super("Mutation queued for replay while offline", 0, "OFFLINE_QUEUED", {
+      mutationId,
+    });
+    this.name = "OfflineQueuedError";
+    this.mutationId = mutationId;
+    this.cause = cause;
+  }
+
+  get isRetryable(): boolean {
+    return false;
+  }
+}
+
+/**
+ * Thrown when a call is cancelled through the caller's AbortSignal.
+ * Timeouts are reported separately and never surface as AbortError.
+ */
+export class AbortError extends SDKError {
+  /**
+   * The value passed to `AbortController.abort(reason)`, if any
+   */
+  public readonly reason: unknown;
+
+  constructor(reason?: unknown, code = "ABORTED") {
+    const message =
+      reason instanceof Error
+        ? reason.message
+        : typeof reason === "string"
+          ? reason
+          : "Request aborted";
+    super(message, 0, code);
+    this.name = "AbortError";
+    this.reason = reason;
+  }
+
+  get isRetryable(): boolean {
+    return false;
+  }
+}
+
+/**
+ * Thrown by calls made after `client.close()`, and by calls that were still
+ * in flight when the client was closed
+ */
+export class ClientClosedError extends AbortError {
+  constructor(message = "Client is closed") {
+    super(message, "CLIENT_CLOSED");
+    this.name = "ClientClosedError";
+  }
+}
+
+/**
+ * Route prefixes whose backends report missing keys and content as
+ * 500 "... not found" instead of 404
+ */
+const NOT_FOUND_AS_500_ROUTES = ["/v1/cache/", "/v1/storage/"];
+
+/**
+ * Pick the error class for a gateway status. On the cache and storage routes
+ * a 500 "... not found" maps to NotFoundError too.
+ */
+function errorClassFor(
+  status: number,
+  message: string,
+  path?: string
+): typeof SDKError {
+  switch (status) {
+    case 400:
+    case 422:
+      return ValidationError;
+    case 401:
+    case 403:
+      return AuthError;
+    case 404:
+      return NotFoundError;
+    case 408:
+      return TimeoutError;
+    case 409:
+      return ConflictError;
+    case 429:
+      return RateLimitError;
+    case 500:
+      return path !== undefined &&
+        NOT_FOUND_AS_500_ROUTES.includes(getRoutePrefix(path)) &&
+        /not found/i.test(message)
+        ? NotFoundError
+        : SDKError;
+    default:
+      return SDKError;
+  }
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+  return undefined;
+}
@@ -3,7 +3,8 @@
  * Client for calling serverless functions on the Orama Network
  */
 
-import { HttpClient } from "../core/http";
+import { HttpClient, MutationOptions } from "../core/http";
+import { SchemaOptions } from "../core/validation";
 import { SDKError } from "../errors";
 
 export interface FunctionsClientConfig {
@@ -35,18 +36,23 @@ export class FunctionsClient {
    * 
    * @param functionName - Name of the function to invoke
    * @param input - Input payload for the function
+   * @param options - Optional call options (e.g. an AbortSignal, idempotency key, or a schema to validate the output)
    * @returns The function response
    */
   async invoke<TInput = any, TOutput = any>(
     functionName: string,
-    input: TInput
+    input: TInput,
+    options: MutationOptions & SchemaOptions<TOutput> = {}
   ): Promise<TOutput> {
     const url = this.gatewayURL
       ? `${this.gatewayURL}/v1/invoke/${this.namespace}/${functionName}`
       : `/v1/invoke/${this.namespace}/${functionName}`;
 
     try {
-      const response = await this.httpClient.post<TOutput>(url, input);
+      const response = await this.httpClient.post<TOutput>(url, input, {
+        ...options,
+        idempotencyKey: options.idempotencyKey ?? true,
+      });
       return response;
     } catch (error) {
       if (error instanceof SDKError) {
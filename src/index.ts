@@ -7,12 +7,34 @@ import { CacheClient } from "./cache/client";
 import { StorageClient } from "./storage/client";
 import { FunctionsClient, FunctionsClientConfig } from "./functions/client";
 import { WSClientConfig } from "./core/ws";
+import { OfflineQueue } from "./core/transport/OfflineQueue";
+import {
+  clientConfigFromEnv,
+  EnvConfigOptions,
+  validateClientConfig,
+} from "./config";
 import {
   StorageAdapter,
   MemoryStorage,
   LocalStorageAdapter,
 } from "./auth/types";
 
+// Declared here rather than through the ESNext.Disposable lib, so the
+// published types also compile on TypeScript < 5.2 (same as @types/node)
+declare global {
+  interface SymbolConstructor {
+    readonly asyncDispose: unique symbol;
+  }
+}
+
+/**
+ * Symbol.asyncDispose, or a registered stand-in on runtimes that don't
+ * define it yet, so Client always has the dispose member
+ */
+const asyncDispose: typeof Symbol.asyncDispose =
+  Symbol.asyncDispose ??
+  (Symbol.for("Symbol.asyncDispose") as typeof Symbol.asyncDispose);
+
 export interface ClientConfig extends Omit<HttpClientConfig, "fetch"> {
   apiKey?: string;
   jwt?: string;
@@ -35,17 +57,46 @@ export interface Client {
   cache: CacheClient;
   storage: StorageClient;
   functions: FunctionsClient;
+  /**
+   * Close all subscriptions and abort requests in flight; every call made
+   * afterwards rejects with ClientClosedError. Safe to call more than once.
+   */
+  close(): Promise<void>;
+  /**
+   * Same as close(), for `await using client = createClient(...)`
+   */
+  [Symbol.asyncDispose](): Promise<void>;
 }
 
 export function createClient(config: ClientConfig): Client {
+  validateClientConfig(config);
   const httpClient = new HttpClient({
     baseURL: config.baseURL,
     timeout: config.timeout,
     maxRetries: config.maxRetries,
     retryDelayMs: config.retryDelayMs,
+    retryPolicy: config.retryPolicy,
     debug: config.debug,
+    logger: config.logger,
+    tracer: config.tracer,
+    metrics: config.metrics,
     fetch: config.fetch,
     onNetworkError: config.onNetworkError,
+    middleware: config.middleware,
+    failover: config.failover,
+    circuitBreaker: config.circuitBreaker,
+    rateLimit: config.rateLimit,
+    auth: config.auth,
+    tls: config.tls,
+    connectionPool: config.connectionPool,
+    encoding: config.encoding,
+    dedupe: config.dedupe,
+    offlineQueue:
+      config.offlineQueue && !(config.offlineQueue instanceof OfflineQueue)
+        ? { storage: config.storage, ...config.offlineQueue }
+        : config.offlineQueue,
+    httpCache: config.httpCache,
+    healthMonitor: config.healthMonitor,
   });
 
   const auth = new AuthClient({
@@ -55,13 +106,11 @@ export function createClient(config: ClientConfig): Client {
     jwt: config.jwt,
   });
 
-  // Derive WebSocket URL from baseURL
-  const wsURL = config.baseURL.replace(/^http/, "ws").replace(/\/$/, "");
-
   const db = new DBClient(httpClient);
+  // WebSocket URL is derived from the active gateway at subscribe time
   const pubsub = new PubSubClient(httpClient, {
+    tls: config.tls,
     ...config.wsConfig,
-    wsURL,
     onNetworkError: config.onNetworkError,
   });
   const network = new NetworkClient(httpClient);
@@ -69,6 +118,11 @@ export function createClient(config: ClientConfig): Client {
   const storage = new StorageClient(httpClient);
   const functions = new FunctionsClient(httpClient, config.functionsConfig);
 
+  const close = async (): Promise<void> => {
+    pubsub.close();
+    await httpClient.close();
+  };
+
   return {
     auth,
     db,
@@ -77,12 +131,151 @@ export function createClient(config: ClientConfig): Client {
     cache,
     storage,
     functions,
+    close,
+    [asyncDispose]: close,
   };
 }
 
+/**
+ * Create a client from a preset and DEBROS_* environment variables, with
+ * `overrides` taking precedence. See clientConfigFromEnv() for the variables.
+ */
+export function createClientFromEnv(
+  overrides: Partial<ClientConfig> = {},
+  options: EnvConfigOptions = {}
+): Client {
+  return createClient(clientConfigFromEnv(overrides, options));
+}
+
+export {
+  clientConfigFromEnv,
+  clientPreset,
+  validateClientConfig,
+} from "./config";
+export type { ClientPreset, EnvConfigOptions } from "./config";
 export { HttpClient } from "./core/http";
-export type { NetworkErrorCallback, NetworkErrorContext } from "./core/http";
+export { GatewayPool } from "./core/transport/GatewayPool";
+export { CircuitBreaker } from "./core/transport/CircuitBreaker";
+export { RateLimiter } from "./core/transport/RateLimiter";
+export {
+  ExponentialBackoffRetryPolicy,
+  isUnprocessedError,
+} from "./core/transport/RequestRetryPolicy";
+export type { ExponentialBackoffOptions } from "./core/transport/RequestRetryPolicy";
+export type { IRetryPolicy, RetryContext } from "./core/interfaces/IRetryPolicy";
+export { PathBasedAuthStrategy } from "./core/transport/AuthHeaderStrategy";
+export type {
+  AuthPolicy,
+  AuthRule,
+  PathBasedAuthStrategyOptions,
+} from "./core/transport/AuthHeaderStrategy";
+export type {
+  IAuthStrategy,
+  RequestContext,
+} from "./core/interfaces/IAuthStrategy";
+export { TLSConfiguration } from "./core/transport/TLSConfiguration";
+export type {
+  TLSFetch,
+  TLSOptions,
+} from "./core/transport/TLSConfiguration";
+export { ConnectionPool } from "./core/transport/ConnectionPool";
+export { HealthMonitor } from "./core/transport/HealthMonitor";
+export type {
+  HealthMonitorConfig,
+  HealthMonitorTransport,
+  HealthProbe,
+  HealthStatus,
+  ServiceHealth,
+  ServiceHealthChange,
+} from "./core/transport/HealthMonitor";
+export {
+  OfflineQueue,
+  isOfflineError,
+} from "./core/transport/OfflineQueue";
+export type {
+  OfflineQueueConfig,
+  OfflineQueueTransport,
+  QueuedMutation,
+} from "./core/transport/OfflineQueue";
+export {
+  HttpCache,
+  MemoryHttpCacheStore,
+  StorageHttpCacheStore,
+} from "./core/transport/HttpCache";
+export type {
+  HttpCacheConfig,
+  HttpCacheEntry,
+  HttpCacheStore,
+} from "./core/transport/HttpCache";
+export { RequestDeduplicator } from "./core/transport/RequestDeduplicator";
+export type { DedupeStats } from "./core/transport/RequestDeduplicator";
+export { BodyEncoder } from "./core/transport/BodyEncoder";
+export type {
+  BodyEncodingConfig,
+  BodyFormat,
+  EncodedBody,
+} from "./core/transport/BodyEncoder";
+export type { CompressionAlgorithm } from "./utils/compression";
+export { Deadline, DEADLINE_HEADER, withDeadline } from "./utils/deadline";
+export type {
+  ConnectionPoolConfig,
+  ConnectionPoolCounts,
+  ConnectionPoolStats,
+} from "./core/transport/ConnectionPool";
+export type {
+  GatewayPoolConfig,
+  GatewayState,
+} from "./core/transport/GatewayPool";
+export type {
+  CircuitBreakerConfig,
+  CircuitSnapshot,
+  CircuitState,
+  CircuitStateChange,
+} from "./core/transport/CircuitBreaker";
+export type {
+  RateLimiterConfig,
+  RateLimitOptions,
+  RateLimitRelease,
+  RateLimitScopeStats,
+  RateLimitStats,
+} from "./core/transport/RateLimiter";
+export type {
+  CallOptions,
+  MutationOptions,
+  HttpMethod,
+  HttpRequestOptions,
+  NetworkErrorCallback,
+  NetworkErrorContext,
+} from "./core/http";
+export type {
+  HttpMiddleware,
+  MiddlewareNext,
+  MiddlewareRequest,
+} from "./core/middleware";
 export { WSClient } from "./core/ws";
+export { ConsoleLogger, silentLogger } from "./core/logger";
+export type { Logger, LogLevel, LogFields } from "./core/logger";
+export { SpanKind, SpanStatusCode, formatTraceparent } from "./core/tracing";
+export type {
+  Tracer,
+  TraceSpan,
+  TraceSpanContext,
+  SpanAttributes,
+  SpanAttributeValue,
+} from "./core/tracing";
+export { MetricsCollector, formatPrometheus } from "./metrics";
+export type {
+  MetricsSink,
+  MetricsSnapshot,
+  MetricsCollectorConfig,
+  MetricLabels,
+  CounterSample,
+  HistogramSample,
+  RequestMetric,
+  RetryMetric,
+  WebSocketMetric,
+  TransferMetric,
+} from "./metrics";
 export { AuthClient } from "./auth/client";
 export { DBClient } from "./db/client";
 export { QueryBuilder } from "./db/qb";
@@ -92,7 +285,29 @@ export { NetworkClient } from "./network/client";
 export { CacheClient } from "./cache/client";
 export { StorageClient } from "./storage/client";
 export { FunctionsClient } from "./functions/client";
-export { SDKError } from "./errors";
+export {
+  SDKError,
+  AbortError,
+  ClientClosedError,
+  NotFoundError,
+  AuthError,
+  RateLimitError,
+  TimeoutError,
+  NetworkError,
+  ConflictError,
+  ValidationError,
+  ResponseValidationError,
+  OfflineQueuedError,
+  ConfigurationError,
+} from "./errors";
+export type { ValidationIssue } from "./errors";
+export { validateResponse, validateEach } from "./core/validation";
+export type {
+  ResponseSchema,
+  SchemaOptions,
+  StandardSchemaV1,
+  SafeParseSchema,
+} from "./core/validation";
 export { MemoryStorage, LocalStorageAdapter } from "./auth/types";
 export type { StorageAdapter, AuthConfig, WhoAmI } from "./auth/types";
 export type * from "./db/types";
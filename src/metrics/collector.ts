@@ -0,0 +1,243 @@
+import {
+  MetricsSink,
+  RequestMetric,
+  RetryMetric,
+  TransferMetric,
+  WebSocketMetric,
+} from "./types";
+import { formatPrometheus } from "./prometheus";
+
+/**
+ * Labels identifying a time series
+ */
+export type MetricLabels = Record<string, string>;
+
+/**
+ * Counter value for one label set
+ */
+export interface CounterSample {
+  labels: MetricLabels;
+  value: number;
+}
+
+/**
+ * Histogram value for one label set; bucket counts are cumulative
+ */
+export interface HistogramSample {
+  labels: MetricLabels;
+  buckets: Array<{ le: number; count: number }>;
+  sum: number;
+  count: number;
+}
+
+/**
+ * Point-in-time copy of all collected metrics
+ */
+export interface MetricsSnapshot {
+  requests: CounterSample[];
+  requestErrors: CounterSample[];
+  requestDuration: HistogramSample[];
+  retries: CounterSample[];
+  requestBytes: CounterSample[];
+  webSocketEvents: CounterSample[];
+  webSocketBytes: CounterSample[];
+  transferBytes: CounterSample[];
+}
+
+export interface MetricsCollectorConfig {
+  /**
+   * Latency histogram bucket upper bounds in seconds
+   */
+  durationBuckets?: number[];
+}
+
+const DEFAULT_DURATION_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30,
+];
+
+class Counter {
+  private readonly series = new Map<string, CounterSample>();
+
+  inc(labels: MetricLabels, value = 1): void {
+    const key = JSON.stringify(labels);
+    const sample = this.series.get(key);
+    if (sample) {
+      sample.value += value;
+    } else {
+      this.series.set(key, { labels, value });
+    }
+  }
+
+  samples(): CounterSample[] {
+    return [...this.series.values()].map((sample) => ({
+      labels: { ...sample.labels },
+      value: sample.value,
+    }));
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+class Histogram {
+  private readonly series = new Map<
+    string,
+    { labels: MetricLabels; counts: number[]; sum: number; count: number }
+  >();
+
+  constructor(private readonly bounds: number[]) {}
+
+  observe(labels: MetricLabels, value: number): void {
+    const key = JSON.stringify(labels);
+    let sample = this.series.get(key);
+    if (!sample) {
+      sample = { labels, counts: this.bounds.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, sample);
+    }
+    this.bounds.forEach((bound, index) => {
+      if (value <= bound) {
+        sample!.counts[index]++;
+      }
+    });
+    sample.sum += value;
+    sample.count++;
+  }
+
+  samples(): HistogramSample[] {
+    return [...this.series.values()].map((sample) => ({
+      labels: { ...sample.labels },
+      buckets: this.bounds.map((le, index) => ({
+        le,
+        count: sample.counts[index],
+      })),
+      sum: sample.sum,
+      count: sample.count,
+    }));
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+/**
+ * In-memory metrics sink aggregating counters and latency histograms
+ * per service and route, with a Prometheus text-format exporter.
+ *
+ * @example
+ * ```ts
+ * const metrics = new MetricsCollector();
+ * const client = createClient({ baseURL, apiKey, metrics });
+ *
+ * // e.g. in an HTTP handler for /metrics
+ * res.setHeader("Content-Type", "text/plain; version=0.0.4");
+ * res.end(metrics.toPrometheus());
+ * ```
+ */
+export class MetricsCollector implements MetricsSink {
+  private readonly requests = new Counter();
+  private readonly requestErrors = new Counter();
+  private readonly requestDuration: Histogram;
+  private readonly retries = new Counter();
+  private readonly requestBytes = new Counter();
+  private readonly webSocketEvents = new Counter();
+  private readonly webSocketBytes = new Counter();
+  private readonly transferBytes = new Counter();
+
+  constructor(config: MetricsCollectorConfig = {}) {
+    this.requestDuration = new Histogram(
+      config.durationBuckets ?? DEFAULT_DURATION_BUCKETS
+    );
+  }
+
+  recordRequest(metric: RequestMetric): void {
+    const labels = {
+      service: metric.service,
+      route: metric.route,
+      method: metric.method,
+    };
+    this.requests.inc({ ...labels, status: String(metric.status) });
+    if (metric.error) {
+      this.requestErrors.inc(labels);
+    }
+    this.requestDuration.observe(labels, metric.durationMs / 1000);
+    if (metric.bytesSent > 0) {
+      this.requestBytes.inc(
+        { service: metric.service, route: metric.route, direction: "sent" },
+        metric.bytesSent
+      );
+    }
+    if (metric.bytesReceived > 0) {
+      this.requestBytes.inc(
+        { service: metric.service, route: metric.route, direction: "received" },
+        metric.bytesReceived
+      );
+    }
+  }
+
+  recordRetry(metric: RetryMetric): void {
+    this.retries.inc({
+      service: metric.service,
+      route: metric.route,
+      method: metric.method,
+    });
+  }
+
+  recordWebSocket(metric: WebSocketMetric): void {
+    this.webSocketEvents.inc({ service: metric.service, event: metric.event });
+    if (metric.bytes && (metric.event === "message_in" || metric.event === "message_out")) {
+      this.webSocketBytes.inc(
+        {
+          service: metric.service,
+          direction: metric.event === "message_in" ? "received" : "sent",
+        },
+        metric.bytes
+      );
+    }
+  }
+
+  recordTransfer(metric: TransferMetric): void {
+    this.transferBytes.inc(
+      { service: metric.service, direction: metric.direction },
+      metric.bytes
+    );
+  }
+
+  /**
+   * Get a copy of all collected metrics
+   */
+  snapshot(): MetricsSnapshot {
+    return {
+      requests: this.requests.samples(),
+      requestErrors: this.requestErrors.samples(),
+      requestDuration: this.requestDuration.samples(),
+      retries: this.retries.samples(),
+      requestBytes: this.requestBytes.samples(),
+      webSocketEvents: this.webSocketEvents.samples(),
+      webSocketBytes: this.webSocketBytes.samples(),
+      transferBytes: this.transferBytes.samples(),
+    };
+  }
+
+  /**
+   * Render all metrics in Prometheus text exposition format
+   */
+  toPrometheus(prefix = "debros"): string {
+    return formatPrometheus(this.snapshot(), prefix);
+  }
+
+  /**
+   * Clear all collected metrics
+   */
+  reset(): void {
+    this.requests.reset();
+    this.requestErrors.reset();
+    this.requestDuration.reset();
+    this.retries.reset();
+    this.requestBytes.reset();
+    this.webSocketEvents.reset();
+    this.webSocketBytes.reset();
+    this.transferBytes.reset();
+  }
+}
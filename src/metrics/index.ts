@@ -0,0 +1,16 @@
+export { MetricsCollector } from "./collector";
+export type {
+  MetricsCollectorConfig,
+  MetricsSnapshot,
+  MetricLabels,
+  CounterSample,
+  HistogramSample,
+} from "./collector";
+export { formatPrometheus } from "./prometheus";
+export type {
+  MetricsSink,
+  RequestMetric,
+  RetryMetric,
+  WebSocketMetric,
+  TransferMetric,
+} from "./types";
@@ -0,0 +1,106 @@
+import type {
+  CounterSample,
+  HistogramSample,
+  MetricLabels,
+  MetricsSnapshot,
+} from "./collector";
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return "";
+  return `{${entries
+    .map(([name, value]) => `${name}="${escapeLabelValue(value)}"`)
+    .join(",")}}`;
+}
+
+function formatCounter(
+  name: string,
+  help: string,
+  samples: CounterSample[]
+): string[] {
+  const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} counter`];
+  for (const sample of samples) {
+    lines.push(`${name}${formatLabels(sample.labels)} ${sample.value}`);
+  }
+  return lines;
+}
+
+function formatHistogram(
+  name: string,
+  help: string,
+  samples: HistogramSample[]
+): string[] {
+  const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} histogram`];
+  for (const sample of samples) {
+    for (const bucket of sample.buckets) {
+      lines.push(
+        `${name}_bucket${formatLabels({
+          ...sample.labels,
+          le: String(bucket.le),
+        })} ${bucket.count}`
+      );
+    }
+    lines.push(
+      `${name}_bucket${formatLabels({ ...sample.labels, le: "+Inf" })} ${sample.count}`
+    );
+    lines.push(`${name}_sum${formatLabels(sample.labels)} ${sample.sum}`);
+    lines.push(`${name}_count${formatLabels(sample.labels)} ${sample.count}`);
+  }
+  return lines;
+}
+
+/**
+ * Render a metrics snapshot in Prometheus text exposition format (version 0.0.4)
+ */
+export function formatPrometheus(
+  snapshot: MetricsSnapshot,
+  prefix = "debros"
+): string {
+  const lines = [
+    ...formatCounter(
+      `${prefix}_requests_total`,
+      "Gateway requests by service, route, method and final status.",
+      snapshot.requests
+    ),
+    ...formatCounter(
+      `${prefix}_request_errors_total`,
+      "Gateway requests that failed after all retries.",
+      snapshot.requestErrors
+    ),
+    ...formatHistogram(
+      `${prefix}_request_duration_seconds`,
+      "Gateway request latency including retries.",
+      snapshot.requestDuration
+    ),
+    ...formatCounter(
+      `${prefix}_request_retries_total`,
+      "Gateway request retries.",
+      snapshot.retries
+    ),
+    ...formatCounter(
+      `${prefix}_request_bytes_total`,
+      "Gateway request and response body bytes.",
+      snapshot.requestBytes
+    ),
+    ...formatCounter(
+      `${prefix}_websocket_events_total`,
+      "WebSocket connection and message events.",
+      snapshot.webSocketEvents
+    ),
+    ...formatCounter(
+      `${prefix}_websocket_bytes_total`,
+      "WebSocket message bytes.",
+      snapshot.webSocketBytes
+    ),
+    ...formatCounter(
+      `${prefix}_transfer_bytes_total`,
+      "Content bytes uploaded to and downloaded from storage.",
+      snapshot.transferBytes
+    ),
+  ];
+  return lines.join("\n") + "\n";
+}
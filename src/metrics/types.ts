@@ -0,0 +1,61 @@
+/**
+ * Metrics Types
+ * Events emitted by the SDK to a metrics sink
+ */
+
+/**
+ * A completed HTTP request (including all retries and failovers)
+ */
+export interface RequestMetric {
+  /** Gateway service, e.g. "rqlite", "cache", "storage" */
+  service: string;
+  /** Low-cardinality route, e.g. "/v1/rqlite/query" */
+  route: string;
+  method: string;
+  /** Final HTTP status; 0 for network-level failures */
+  status: number;
+  durationMs: number;
+  error: boolean;
+  bytesSent: number;
+  bytesReceived: number;
+}
+
+/**
+ * A retry of an HTTP request
+ */
+export interface RetryMetric {
+  service: string;
+  route: string;
+  method: string;
+  attempt: number;
+}
+
+/**
+ * A WebSocket lifecycle or traffic event
+ */
+export interface WebSocketMetric {
+  service: string;
+  event: "connect" | "connect_error" | "message_in" | "message_out" | "close";
+  bytes?: number;
+}
+
+/**
+ * Content transferred by a service outside of plain JSON requests
+ * (e.g. storage uploads and downloads)
+ */
+export interface TransferMetric {
+  service: string;
+  direction: "upload" | "download";
+  bytes: number;
+}
+
+/**
+ * Destination for SDK metrics. Implement this to forward metrics to your own
+ * system, or use the built-in MetricsCollector.
+ */
+export interface MetricsSink {
+  recordRequest(metric: RequestMetric): void;
+  recordRetry(metric: RetryMetric): void;
+  recordWebSocket(metric: WebSocketMetric): void;
+  recordTransfer(metric: TransferMetric): void;
+}
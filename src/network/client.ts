@@ -1,4 +1,4 @@
-import { HttpClient } from "../core/http";
+import { CallOptions, HttpClient } from "../core/http";
 
 export interface PeerInfo {
   id: string;
@@ -50,9 +50,10 @@ export class NetworkClient {
   /**
    * Get network status.
    */
-  async status(): Promise<NetworkStatus> {
+  async status(options: CallOptions = {}): Promise<NetworkStatus> {
     const response = await this.httpClient.get<NetworkStatus>(
-      "/v1/network/status"
+      "/v1/network/status",
+      options
     );
     return response;
   }
@@ -1,5 +1,8 @@
-import { HttpClient } from "../core/http";
+import { CallOptions, HttpClient, MutationOptions } from "../core/http";
 import { WSClient, WSClientConfig } from "../core/ws";
+import { Logger, silentLogger } from "../core/logger";
+import { SpanKind, Tracer, finishSpan } from "../core/tracing";
+import { ClientClosedError } from "../errors";
 import {
   PubSubMessage,
   RawEnvelope,
@@ -60,16 +63,33 @@ function base64Decode(b64: string): string {
 export class PubSubClient {
   private httpClient: HttpClient;
   private wsConfig: Partial<WSClientConfig>;
+  private subscriptions: Set<Subscription> = new Set();
+  private connecting: Set<WSClient> = new Set();
+  private closed = false;
 
   constructor(httpClient: HttpClient, wsConfig: Partial<WSClientConfig> = {}) {
     this.httpClient = httpClient;
     this.wsConfig = wsConfig;
   }
 
+  /**
+   * Close all subscriptions, including ones still connecting.
+   * Later subscribe() calls reject with ClientClosedError.
+   */
+  close(): void {
+    this.closed = true;
+    this.connecting.forEach((wsClient) => wsClient.close());
+    this.subscriptions.forEach((subscription) => subscription.close());
+  }
+
   /**
    * Publish a message to a topic via HTTP
    */
-  async publish(topic: string, data: string | Uint8Array): Promise<void> {
+  async publish(
+    topic: string,
+    data: string | Uint8Array,
+    options: MutationOptions = {}
+  ): Promise<void> {
     let dataBase64: string;
     if (typeof data === "string") {
       dataBase64 = base64Encode(data);
@@ -85,6 +105,8 @@ export class PubSubClient {
       },
       {
         timeout: 30000,
+        ...options,
+        idempotencyKey: options.idempotencyKey ?? true,
       }
     );
   }
@@ -92,9 +114,10 @@ export class PubSubClient {
   /**
    * List active topics in the current namespace
    */
-  async topics(): Promise<string[]> {
+  async topics(options: CallOptions = {}): Promise<string[]> {
     const response = await this.httpClient.get<{ topics: string[] }>(
-      "/v1/pubsub/topics"
+      "/v1/pubsub/topics",
+      options
     );
     return response.topics || [];
   }
@@ -117,8 +140,16 @@ export class PubSubClient {
     topic: string,
     options: SubscribeOptions = {}
   ): Promise<Subscription> {
-    // Build WebSocket URL for this topic
-    const wsUrl = new URL(this.wsConfig.wsURL || "ws://127.0.0.1:6001");
+    if (this.closed) {
+      throw new ClientClosedError();
+    }
+
+    // Build WebSocket URL for this topic, following the active gateway
+    // unless an explicit wsURL was configured
+    const wsUrl = new URL(
+      this.wsConfig.wsURL ||
+        this.httpClient.getBaseURL().replace(/^http/, "ws")
+    );
     wsUrl.pathname = "/v1/pubsub/ws";
     wsUrl.searchParams.set("topic", topic);
 
@@ -135,19 +166,45 @@ export class PubSubClient {
 
     const authToken = this.httpClient.getApiKey() ?? this.httpClient.getToken();
 
+    const logger = this.wsConfig.logger ?? this.httpClient.getLogger();
+    const tracer = this.wsConfig.tracer ?? this.httpClient.getTracer();
+    const metrics = this.wsConfig.metrics ?? this.httpClient.getMetrics();
+
     // Create WebSocket client
     const wsClient = new WSClient({
       ...this.wsConfig,
       wsURL: wsUrl.toString(),
       authToken,
+      logger,
+      tracer,
+      metrics,
     });
 
-    await wsClient.connect();
+    this.connecting.add(wsClient);
+    try {
+      await wsClient.connect();
+    } catch (error) {
+      throw this.closed ? new ClientClosedError() : error;
+    } finally {
+      this.connecting.delete(wsClient);
+    }
+    if (this.closed) {
+      // Closed while the connection was being set up
+      wsClient.close();
+      throw new ClientClosedError();
+    }
 
     // Create subscription wrapper
-    const subscription = new Subscription(wsClient, topic, presence, () =>
-      this.getPresence(topic)
+    const subscription = new Subscription(
+      wsClient,
+      topic,
+      presence,
+      () => this.getPresence(topic),
+      logger,
+      tracer,
+      () => this.subscriptions.delete(subscription)
     );
+    this.subscriptions.add(subscription);
 
     if (options.onMessage) {
       subscription.onMessage(options.onMessage);
@@ -178,20 +235,38 @@ export class Subscription {
   private wsErrorHandler: ((error: Error) => void) | null = null;
   private wsCloseHandler: (() => void) | null = null;
   private getPresenceFn: () => Promise<PresenceResponse>;
+  private logger: Logger;
+  private tracer?: Tracer;
+  private onDispose?: () => void;
 
   constructor(
     wsClient: WSClient,
     topic: string,
     presenceOptions: PresenceOptions | undefined,
-    getPresenceFn: () => Promise<PresenceResponse>
+    getPresenceFn: () => Promise<PresenceResponse>,
+    logger: Logger = silentLogger,
+    tracer?: Tracer,
+    onDispose?: () => void
   ) {
     this.wsClient = wsClient;
     this.topic = topic;
     this.presenceOptions = presenceOptions;
     this.getPresenceFn = getPresenceFn;
+    this.logger = logger;
+    this.tracer = tracer;
+    this.onDispose = onDispose;
 
     // Register message handler
     this.wsMessageHandler = (data) => {
+      const span = this.tracer?.startSpan(`${this.topic} process`, {
+        kind: SpanKind.CONSUMER,
+        attributes: {
+          "messaging.system": "debros",
+          "messaging.destination.name": this.topic,
+          "messaging.operation.type": "process",
+        },
+      });
+      let failure: unknown;
       try {
         // Parse gateway JSON envelope: {data: base64String, timestamp, topic}
         const envelope: RawEnvelope = JSON.parse(data);
@@ -206,8 +281,12 @@ export class Subscription {
           envelope.type === "presence.join" ||
           envelope.type === "presence.leave"
         ) {
+          span?.setAttribute("debros.pubsub.event", envelope.type);
           if (!envelope.member_id) {
-            console.warn("[Subscription] Presence event missing member_id");
+            this.logger.warn("[Subscription] Presence event missing member_id", {
+              topic: this.topic,
+              type: envelope.type,
+            });
             return;
           }
 
@@ -252,13 +331,21 @@ export class Subscription {
           timestamp: envelope.timestamp,
         };
 
-        console.log("[Subscription] Received message on topic:", this.topic);
+        this.logger.debug("[Subscription] Received message", {
+          topic: this.topic,
+        });
         this.messageHandlers.forEach((handler) => handler(message));
       } catch (error) {
-        console.error("[Subscription] Error processing message:", error);
+        failure = error;
+        this.logger.error("[Subscription] Error processing message", {
+          topic: this.topic,
+          error: error instanceof Error ? error.message : String(error),
+        });
         this.errorHandlers.forEach((handler) =>
           handler(error instanceof Error ? error : new Error(String(error)))
         );
+      } finally {
+        finishSpan(span, failure);
       }
     };
 
@@ -350,6 +437,7 @@ export class Subscription {
 
     // Close WebSocket connection
     this.wsClient.close();
+    this.onDispose?.();
   }
 
   /**
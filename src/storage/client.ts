@@ -1,4 +1,8 @@
-import { HttpClient } from "../core/http";
+import { CallOptions, HttpClient, MutationOptions } from "../core/http";
+import { sleep } from "../utils/abort";
+import { Deadline } from "../utils/deadline";
+import { SchemaOptions } from "../core/validation";
+import { NotFoundError } from "../errors";
 
 export interface StorageUploadResponse {
   cid: string;
@@ -42,6 +46,8 @@ export class StorageClient {
    * @param name - Optional filename
    * @param options - Optional upload options
    * @param options.pin - Whether to pin the content (default: true). Pinning happens asynchronously on the backend.
+   * @param options.signal - Cancel the upload
+   * @param options.deadline - Time budget for the upload, including reading the input
    * @returns Upload result with CID
    *
    * @example
@@ -61,10 +67,12 @@ export class StorageClient {
   async upload(
     file: File | Blob | ArrayBuffer | Uint8Array | ReadableStream<Uint8Array>,
     name?: string,
-    options?: {
+    options?: CallOptions & {
       pin?: boolean;
     }
   ): Promise<StorageUploadResponse> {
+    const deadline = Deadline.from(options?.deadline);
+
     // Create FormData for multipart upload
     const formData = new FormData();
 
@@ -110,11 +118,21 @@ export class StorageClient {
     const shouldPin = options?.pin !== false; // Default to true
     formData.append("pin", shouldPin ? "true" : "false");
 
-    return this.httpClient.uploadFile<StorageUploadResponse>(
+    const result = await this.httpClient.uploadFile<StorageUploadResponse>(
       "/v1/storage/upload",
       formData,
-      { timeout: 300000 } // 5 minute timeout for large files
+      // 5 minute timeout for large files; uploads are content-addressed, so resending is safe
+      { timeout: 300000, idempotent: true, signal: options?.signal, deadline }
     );
+
+    const uploaded = formData.get("file");
+    this.httpClient.getMetrics()?.recordTransfer({
+      service: "storage",
+      direction: "upload",
+      bytes: uploaded instanceof Blob ? uploaded.size : 0,
+    });
+
+    return result;
   }
 
   /**
@@ -122,29 +140,44 @@ export class StorageClient {
    *
    * @param cid - Content ID to pin
    * @param name - Optional name for the pin
+   * @param options - Optional call options (e.g. an AbortSignal or idempotency key)
    * @returns Pin result
    */
-  async pin(cid: string, name?: string): Promise<StoragePinResponse> {
-    return this.httpClient.post<StoragePinResponse>("/v1/storage/pin", {
-      cid,
-      name,
-    });
+  async pin(
+    cid: string,
+    name?: string,
+    options: MutationOptions = {}
+  ): Promise<StoragePinResponse> {
+    return this.httpClient.post<StoragePinResponse>(
+      "/v1/storage/pin",
+      {
+        cid,
+        name,
+      },
+      { ...options, idempotencyKey: options.idempotencyKey ?? true }
+    );
   }
 
   /**
    * Get the pin status for a CID
    *
    * @param cid - Content ID to check
+   * @param options - Optional call options (e.g. an AbortSignal, or a schema to validate the status)
    * @returns Pin status information
    */
-  async status(cid: string): Promise<StorageStatus> {
-    return this.httpClient.get<StorageStatus>(`/v1/storage/status/${cid}`);
+  async status<T = StorageStatus>(
+    cid: string,
+    options: CallOptions & SchemaOptions<T> = {}
+  ): Promise<T> {
+    return this.httpClient.get<T>(`/v1/storage/status/${cid}`, options);
   }
 
   /**
    * Retrieve content from IPFS by CID
    *
    * @param cid - Content ID to retrieve
+   * @param options - Optional call options; the signal also cancels retries and the body stream,
+   *   and a deadline bounds all attempts together
    * @returns ReadableStream of the content
    *
    * @example
@@ -158,43 +191,58 @@ export class StorageClient {
    * }
    * ```
    */
-  async get(cid: string): Promise<ReadableStream<Uint8Array>> {
+  async get(
+    cid: string,
+    options: CallOptions = {}
+  ): Promise<ReadableStream<Uint8Array>> {
     // Retry logic for content retrieval - content may not be immediately available
     // after upload due to eventual consistency in IPFS Cluster
     // IPFS Cluster pins can take 2-3+ seconds to complete across all nodes
     const maxAttempts = 8;
     let lastError: Error | null = null;
+    // Start the budget once so it covers every attempt and backoff
+    const deadline = Deadline.from(options.deadline);
+    const attemptOptions = { ...options, deadline };
 
     for (let attempt = 1; attempt <= maxAttempts; attempt++) {
       try {
         const response = await this.httpClient.getBinary(
-          `/v1/storage/get/${cid}`
+          `/v1/storage/get/${cid}`,
+          attemptOptions
         );
 
         if (!response.body) {
           throw new Error("Response body is null");
         }
 
+        this.recordDownload(response);
         return response.body;
       } catch (error: any) {
         lastError = error;
 
-        // Check if this is a 404 error (content not found)
-        const isNotFound =
-          error?.httpStatus === 404 ||
-          error?.message?.includes("not found") ||
-          error?.message?.includes("404");
-
-        // If it's not a 404 error, or this is the last attempt, give up
-        if (!isNotFound || attempt === maxAttempts) {
-          throw error;
-        }
+        // Content not found yet (404, or 500 "not found" from the backend)
+        const isNotFound = error instanceof NotFoundError;
 
         // Wait before retrying with bounded exponential backoff
         // Max 3 seconds per retry to fit within 30s test timeout
         // Total: 1s + 2s + 3s + 3s + 3s + 3s + 3s + 3s = 21 seconds
         const backoffMs = Math.min(attempt * 1000, 3000);
-        await new Promise((resolve) => setTimeout(resolve, backoffMs));
+
+        // If it's not a 404 error, this is the last attempt, or the deadline
+        // leaves no time for another attempt, give up
+        if (
+          !isNotFound ||
+          attempt === maxAttempts ||
+          (deadline && backoffMs >= deadline.remaining())
+        ) {
+          throw error;
+        }
+        this.recordRetry(attempt);
+        await sleep(backoffMs, [
+          options.signal,
+          this.httpClient.getCloseSignal(),
+          deadline?.signal,
+        ]);
       }
     }
 
@@ -207,6 +255,8 @@ export class StorageClient {
    * Useful when you need access to response headers (e.g., content-length)
    *
    * @param cid - Content ID to retrieve
+   * @param options - Optional call options; the signal also cancels retries and the body stream,
+   *   and a deadline bounds all attempts together
    * @returns Response object with body stream and headers
    *
    * @example
@@ -217,43 +267,55 @@ export class StorageClient {
    * // ... read stream
    * ```
    */
-  async getBinary(cid: string): Promise<Response> {
+  async getBinary(cid: string, options: CallOptions = {}): Promise<Response> {
     // Retry logic for content retrieval - content may not be immediately available
     // after upload due to eventual consistency in IPFS Cluster
     // IPFS Cluster pins can take 2-3+ seconds to complete across all nodes
     const maxAttempts = 8;
     let lastError: Error | null = null;
+    // Start the budget once so it covers every attempt and backoff
+    const deadline = Deadline.from(options.deadline);
+    const attemptOptions = { ...options, deadline };
 
     for (let attempt = 1; attempt <= maxAttempts; attempt++) {
       try {
         const response = await this.httpClient.getBinary(
-          `/v1/storage/get/${cid}`
+          `/v1/storage/get/${cid}`,
+          attemptOptions
         );
 
         if (!response) {
           throw new Error("Response is null");
         }
 
+        this.recordDownload(response);
         return response;
       } catch (error: any) {
         lastError = error;
 
-        // Check if this is a 404 error (content not found)
-        const isNotFound =
-          error?.httpStatus === 404 ||
-          error?.message?.includes("not found") ||
-          error?.message?.includes("404");
-
-        // If it's not a 404 error, or this is the last attempt, give up
-        if (!isNotFound || attempt === maxAttempts) {
-          throw error;
-        }
+        // Content not found yet (404, or 500 "not found" from the backend)
+        const isNotFound = error instanceof NotFoundError;
 
         // Wait before retrying with bounded exponential backoff
         // Max 3 seconds per retry to fit within 30s test timeout
         // Total: 1s + 2s + 3s + 3s + 3s + 3s + 3s + 3s = 21 seconds
         const backoffMs = Math.min(attempt * 1000, 3000);
-        await new Promise((resolve) => setTimeout(resolve, backoffMs));
+
+        // If it's not a 404 error, this is the last attempt, or the deadline
+        // leaves no time for another attempt, give up
+        if (
+          !isNotFound ||
+          attempt === maxAttempts ||
+          (deadline && backoffMs >= deadline.remaining())
+        ) {
+          throw error;
+        }
+        this.recordRetry(attempt);
+        await sleep(backoffMs, [
+          options.signal,
+          this.httpClient.getCloseSignal(),
+          deadline?.signal,
+        ]);
       }
     }
 
@@ -265,8 +327,26 @@ export class StorageClient {
    * Unpin a CID
    *
    * @param cid - Content ID to unpin
+   * @param options - Optional call options (e.g. an AbortSignal)
    */
-  async unpin(cid: string): Promise<void> {
-    await this.httpClient.delete(`/v1/storage/unpin/${cid}`);
+  async unpin(cid: string, options: CallOptions = {}): Promise<void> {
+    await this.httpClient.delete(`/v1/storage/unpin/${cid}`, options);
+  }
+
+  private recordDownload(response: Response): void {
+    this.httpClient.getMetrics()?.recordTransfer({
+      service: "storage",
+      direction: "download",
+      bytes: Number(response.headers.get("content-length")) || 0,
+    });
+  }
+
+  private recordRetry(attempt: number): void {
+    this.httpClient.getMetrics()?.recordRetry({
+      service: "storage",
+      route: "/v1/storage/get",
+      method: "GET",
+      attempt,
+    });
   }
 }
@@ -0,0 +1,605 @@
+import WebSocket from "isomorphic-ws";
+import type { WSClientConfig } from "../core/ws";
+import type { ClientConfig } from "../index";
+import { redactHeaders, redactUrl } from "../core/transport/RequestLogger";
+import { Base64Codec } from "../utils/codec";
+
+const REDACTED = "[REDACTED]";
+
+/**
+ * API keys (`ak_<key>:<namespace>`) and JWTs found in bodies and frames
+ */
+const SECRET_PATTERNS = [
+  /\bak_[A-Za-z0-9_-]+(?::[A-Za-z0-9_-]+)?/g,
+  /\beyJ[A-Za-z0-9_-]*\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g,
+];
+
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+type WebSocketClass = NonNullable<WSClientConfig["WebSocket"]>;
+
+export type CassetteMode = "record" | "replay";
+
+/**
+ * Parts of a request compared when looking for a recorded interaction
+ */
+export type CassetteMatchField = "method" | "path" | "query" | "body";
+
+/**
+ * Custom matcher; both requests are already redacted
+ */
+export type CassetteMatcher = (
+  request: CassetteRequest,
+  recorded: CassetteRequest
+) => boolean;
+
+export interface CassetteRequest {
+  method: string;
+  /** Path and query string, without the gateway origin */
+  path: string;
+  headers: Record<string, string>;
+  body?: string;
+  encoding?: "base64";
+}
+
+export interface CassetteResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+  encoding?: "base64";
+}
+
+export interface CassetteInteraction {
+  /** Position in the recording, shared by HTTP interactions and WebSocket frames */
+  seq: number;
+  request: CassetteRequest;
+  response: CassetteResponse;
+}
+
+export interface CassetteFrame {
+  seq: number;
+  /** "in" = gateway to client, "out" = client to gateway */
+  direction: "in" | "out";
+  data: string;
+  encoding?: "base64";
+}
+
+export interface CassetteWebSocket {
+  seq: number;
+  /** Path and query string, without the gateway origin */
+  url: string;
+  frames: CassetteFrame[];
+}
+
+/**
+ * Serialized cassette, as stored in the JSON file
+ */
+export interface CassetteData {
+  version: 1;
+  interactions: CassetteInteraction[];
+  websockets: CassetteWebSocket[];
+}
+
+export interface CassetteRedactionOptions {
+  /** Extra header names to redact (authorization, x-api-key and cookies always are) */
+  headers?: string[];
+  /** Extra patterns to redact from URLs, bodies and frames (API keys and JWTs always are) */
+  patterns?: RegExp[];
+}
+
+export interface CassetteConfig {
+  /**
+   * "record" passes traffic through and captures it; "replay" answers from the cassette.
+   * Default: "replay"
+   */
+  mode?: CassetteMode;
+
+  /**
+   * Previously recorded data (replay) or data to append to (record)
+   */
+  data?: CassetteData;
+
+  /**
+   * Fields a request must share with a recorded one, or a custom matcher.
+   * Default: ["method", "path", "query", "body"]
+   */
+  match?: CassetteMatchField[] | CassetteMatcher;
+
+  redact?: CassetteRedactionOptions;
+
+  /**
+   * Underlying fetch used while recording. Default: globalThis.fetch
+   */
+  fetch?: typeof fetch;
+
+  /**
+   * Underlying WebSocket used while recording. Default: isomorphic-ws
+   */
+  WebSocket?: WebSocketClass;
+}
+
+/**
+ * Thrown in replay mode when a request has no matching recorded interaction
+ */
+export class CassetteMismatchError extends Error {
+  readonly request: CassetteRequest;
+
+  constructor(message: string, request: CassetteRequest) {
+    super(message);
+    this.name = "CassetteMismatchError";
+    this.request = request;
+  }
+}
+
+function emptyCassette(): CassetteData {
+  return { version: 1, interactions: [], websockets: [] };
+}
+
+/**
+ * Strip the origin, keeping path and query string
+ */
+function toPath(url: string): string {
+  const parsed = new URL(url);
+  return `${parsed.pathname}${parsed.search}`;
+}
+
+/**
+ * Encode bytes as UTF-8 text when possible, base64 otherwise
+ */
+function encodeBytes(bytes: Uint8Array): { data: string; encoding?: "base64" } {
+  try {
+    return { data: new TextDecoder("utf-8", { fatal: true }).decode(bytes) };
+  } catch {
+    return { data: Base64Codec.encode(bytes), encoding: "base64" };
+  }
+}
+
+function decodeBytes(data: string, encoding?: "base64"): ArrayBuffer {
+  const bytes =
+    encoding === "base64"
+      ? Base64Codec.decodeBytes(data)
+      : new TextEncoder().encode(data);
+  return bytes.buffer.slice(
+    bytes.byteOffset,
+    bytes.byteOffset + bytes.byteLength
+  ) as ArrayBuffer;
+}
+
+/**
+ * Compare JSON bodies structurally (key order and whitespace don't matter)
+ */
+function bodiesMatch(a?: string, b?: string): boolean {
+  if ((a ?? "") === (b ?? "")) return true;
+  try {
+    return canonicalJson(JSON.parse(a ?? "")) === canonicalJson(JSON.parse(b ?? ""));
+  } catch {
+    return false;
+  }
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value as object)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as any)[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function queriesMatch(a: string, b: string): boolean {
+  const normalize = (path: string) => {
+    const params = new URL(path, "http://cassette").searchParams;
+    params.sort();
+    return params.toString();
+  };
+  return normalize(a) === normalize(b);
+}
+
+function pathname(path: string): string {
+  return new URL(path, "http://cassette").pathname;
+}
+
+/**
+ * Records gateway traffic (HTTP and pub/sub WebSocket frames) to a JSON cassette
+ * and replays it deterministically, through the `fetch` and `WebSocket`
+ * injection points of the client config. Credentials are redacted before
+ * anything is stored.
+ *
+ * @example
+ * ```ts
+ * const cassette = await Cassette.load("tests/cassettes/cache.json", {
+ *   mode: process.env.RECORD ? "record" : "replay",
+ * });
+ * const client = createClient({ baseURL, apiKey, ...cassette.clientConfig() });
+ * // ... exercise the client
+ * await cassette.save();
+ * ```
+ */
+export class Cassette {
+  readonly mode: CassetteMode;
+  private readonly data: CassetteData;
+  private readonly matcher: CassetteMatcher;
+  private readonly redactedHeaders: string[];
+  private readonly patterns: RegExp[];
+  private readonly baseFetch?: typeof fetch;
+  private readonly BaseWebSocket: WebSocketClass;
+  private readonly path?: string;
+  private readonly used = new Set<CassetteInteraction>();
+  private readonly usedSockets = new Set<CassetteWebSocket>();
+  private readonly replaying = new Set<ReplayWebSocket>();
+  private seq: number;
+
+  /**
+   * WebSocket implementation that records or replays frames
+   */
+  readonly WebSocket: WebSocketClass;
+
+  constructor(config: CassetteConfig = {}, path?: string) {
+    this.mode = config.mode ?? "replay";
+    this.data = config.data ?? emptyCassette();
+    this.path = path;
+    this.redactedHeaders = [
+      "set-cookie",
+      ...(config.redact?.headers ?? []).map((name) => name.toLowerCase()),
+    ];
+    this.patterns = [...SECRET_PATTERNS, ...(config.redact?.patterns ?? [])];
+    this.baseFetch = config.fetch;
+    this.BaseWebSocket = config.WebSocket ?? WebSocket;
+    this.matcher =
+      typeof config.match === "function"
+        ? config.match
+        : this.fieldMatcher(config.match ?? ["method", "path", "query", "body"]);
+    this.seq = Math.max(
+      0,
+      ...this.data.interactions.map((interaction) => interaction.seq),
+      ...this.data.websockets.flatMap((socket) => [
+        socket.seq,
+        ...socket.frames.map((frame) => frame.seq),
+      ])
+    );
+    this.WebSocket =
+      this.mode === "record" ? this.recordingWebSocket() : this.replayWebSocket();
+  }
+
+  /**
+   * Load a cassette file (Node.js). A missing file starts an empty cassette,
+   * which is only useful in record mode.
+   */
+  static async load(path: string, config: CassetteConfig = {}): Promise<Cassette> {
+    const { readFile } = await import("node:fs/promises");
+    let data: CassetteData | undefined;
+    try {
+      data = JSON.parse(await readFile(path, "utf-8"));
+    } catch (error: any) {
+      if (error?.code !== "ENOENT" || config.mode !== "record") {
+        throw error;
+      }
+    }
+    // Re-recording replaces the previous contents
+    return new Cassette(
+      { ...config, data: config.mode === "record" ? undefined : data },
+      path
+    );
+  }
+
+  /**
+   * Write the cassette to `path` (default: the file it was loaded from). Node.js only.
+   */
+  async save(path = this.path): Promise<void> {
+    if (!path) {
+      throw new Error("Cassette has no file path; pass one to save()");
+    }
+    const { mkdir, writeFile } = await import("node:fs/promises");
+    const { dirname } = await import("node:path");
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, `${JSON.stringify(this.toJSON(), null, 2)}\n`);
+  }
+
+  toJSON(): CassetteData {
+    return {
+      version: 1,
+      interactions: [...this.data.interactions].sort((a, b) => a.seq - b.seq),
+      websockets: this.data.websockets.map((socket) => ({
+        ...socket,
+        frames: [...socket.frames].sort((a, b) => a.seq - b.seq),
+      })),
+    };
+  }
+
+  /**
+   * Client options that route HTTP and WebSocket traffic through the cassette
+   */
+  clientConfig(): Pick<ClientConfig, "fetch" | "wsConfig"> {
+    return { fetch: this.fetch, wsConfig: { WebSocket: this.WebSocket } };
+  }
+
+  /**
+   * Recorded interactions that have not been replayed yet
+   */
+  unusedInteractions(): CassetteInteraction[] {
+    return this.data.interactions.filter((interaction) => !this.used.has(interaction));
+  }
+
+  /**
+   * Fetch implementation that records or replays
+   */
+  readonly fetch: typeof fetch = async (input, init) => {
+    const request = new Request(input, init);
+    return this.mode === "record" ? this.record(request) : this.replay(request);
+  };
+
+  private async record(request: Request): Promise<Response> {
+    const seq = ++this.seq;
+    const recorded = await this.describeRequest(request.clone());
+    const response = await (this.baseFetch ?? globalThis.fetch)(request);
+    const bytes = new Uint8Array(await response.clone().arrayBuffer());
+    const { data, encoding } = encodeBytes(bytes);
+    this.data.interactions.push({
+      seq,
+      request: recorded,
+      response: {
+        status: response.status,
+        headers: this.redactHeaders(Object.fromEntries(response.headers.entries())),
+        body: encoding ? data : this.redactText(data),
+        encoding,
+      },
+    });
+    return response;
+  }
+
+  private async replay(request: Request): Promise<Response> {
+    if (request.signal.aborted) {
+      throw request.signal.reason ?? new Error("Request aborted");
+    }
+    const incoming = await this.describeRequest(request);
+    const interaction = this.data.interactions.find(
+      (candidate) => !this.used.has(candidate) && this.matcher(incoming, candidate.request)
+    );
+    if (!interaction) {
+      throw new CassetteMismatchError(
+        `No recorded interaction matches ${incoming.method} ${incoming.path}`,
+        incoming
+      );
+    }
+    this.used.add(interaction);
+    // Frames recorded after this request may now be delivered
+    this.replaying.forEach((socket) => socket.flush());
+
+    const { status, headers, body, encoding } = interaction.response;
+    return new Response(
+      NULL_BODY_STATUSES.includes(status) ? null : decodeBytes(body, encoding),
+      { status, headers }
+    );
+  }
+
+  private async describeRequest(request: Request): Promise<CassetteRequest> {
+    const description: CassetteRequest = {
+      method: request.method,
+      path: this.redactText(toPath(redactUrl(request.url))),
+      headers: this.redactHeaders(Object.fromEntries(request.headers.entries())),
+    };
+    const bytes = new Uint8Array(await request.arrayBuffer());
+    if (bytes.byteLength > 0) {
+      const { data, encoding } = encodeBytes(bytes);
+      description.body = encoding
+        ? data
+        : this.redactText(this.normalizeMultipart(data, request.headers));
+      description.encoding = encoding;
+    }
+    return description;
+  }
+
+  /**
+   * Replace the random multipart boundary so uploads match across runs
+   */
+  private normalizeMultipart(body: string, headers: Headers): string {
+    const boundary = /boundary=([^;]+)/.exec(headers.get("content-type") ?? "")?.[1];
+    return boundary ? body.split(boundary).join("cassette-boundary") : body;
+  }
+
+  private redactHeaders(headers: Record<string, string>): Record<string, string> {
+    const result = redactHeaders(headers);
+    for (const name of Object.keys(result)) {
+      if (this.redactedHeaders.includes(name.toLowerCase())) {
+        result[name] = REDACTED;
+      }
+    }
+    return result;
+  }
+
+  private redactText(text: string): string {
+    return this.patterns.reduce(
+      (result, pattern) =>
+        result.replace(
+          pattern.global ? pattern : new RegExp(pattern.source, `${pattern.flags}g`),
+          REDACTED
+        ),
+      text
+    );
+  }
+
+  private fieldMatcher(fields: CassetteMatchField[]): CassetteMatcher {
+    return (request, recorded) =>
+      (!fields.includes("method") || request.method === recorded.method) &&
+      (!fields.includes("path") || pathname(request.path) === pathname(recorded.path)) &&
+      (!fields.includes("query") || queriesMatch(request.path, recorded.path)) &&
+      (!fields.includes("body") || bodiesMatch(request.body, recorded.body));
+  }
+
+  /**
+   * Wrap the underlying WebSocket, capturing frames in both directions
+   */
+  private recordingWebSocket(): WebSocketClass {
+    const Base = this.BaseWebSocket;
+    const open = (url: string, protocols?: string | string[]) => {
+      const socket = new Base(url, protocols);
+      const recording: CassetteWebSocket = {
+        seq: ++this.seq,
+        url: this.redactText(toPath(redactUrl(url))),
+        frames: [],
+      };
+      this.data.websockets.push(recording);
+      socket.addEventListener("message", (event: { data: unknown }) => {
+        recording.frames.push(this.frame("in", event.data));
+      });
+      const send = socket.send.bind(socket) as (...args: any[]) => void;
+      socket.send = (data: any, ...rest: any[]) => {
+        recording.frames.push(this.frame("out", data));
+        send(data, ...rest);
+      };
+      return socket;
+    };
+    // Called with `new`; returning the socket makes it the constructed object
+    return function RecordingWebSocket(url: string, protocols?: string | string[]) {
+      return open(url, protocols);
+    } as unknown as WebSocketClass;
+  }
+
+  private replayWebSocket(): WebSocketClass {
+    const host: ReplayHost = {
+      attach: (socket) => this.replaying.add(socket),
+      detach: (socket) => this.replaying.delete(socket),
+      // Every HTTP interaction recorded before `seq` has been replayed
+      reachedSeq: (seq) =>
+        this.data.interactions.every(
+          (interaction) => interaction.seq > seq || this.used.has(interaction)
+        ),
+    };
+    const claimSocket = (url: string) => this.claimSocket(url);
+    return class extends ReplayWebSocket {
+      constructor(url: string) {
+        super(url, claimSocket(url), host);
+      }
+    } as unknown as WebSocketClass;
+  }
+
+  private frame(direction: "in" | "out", data: unknown): CassetteFrame {
+    const bytes =
+      typeof data === "string"
+        ? undefined
+        : data instanceof ArrayBuffer
+          ? new Uint8Array(data)
+          : ArrayBuffer.isView(data)
+            ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+            : undefined;
+    if (bytes) {
+      return { seq: ++this.seq, direction, ...encodeBytes(bytes) };
+    }
+    return { seq: ++this.seq, direction, data: this.redactText(String(data)) };
+  }
+
+  /**
+   * Find the first unused recorded socket opened on the same path and query
+   */
+  private claimSocket(url: string): CassetteWebSocket | undefined {
+    const path = this.redactText(toPath(redactUrl(url)));
+    const socket = this.data.websockets.find(
+      (candidate) =>
+        !this.usedSockets.has(candidate) &&
+        pathname(candidate.url) === pathname(path) &&
+        queriesMatch(candidate.url, path)
+    );
+    if (socket) {
+      this.usedSockets.add(socket);
+    }
+    return socket;
+  }
+}
+
+/**
+ * Replay state shared by a cassette with its replaying sockets
+ */
+interface ReplayHost {
+  attach(socket: ReplayWebSocket): void;
+  detach(socket: ReplayWebSocket): void;
+  reachedSeq(seq: number): boolean;
+}
+
+/**
+ * WebSocket that replays recorded frames. A gateway frame is delivered once
+ * the client has sent every frame and replayed every HTTP request that came
+ * before it in the recording.
+ */
+class ReplayWebSocket extends EventTarget {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSING = 2;
+  static readonly CLOSED = 3;
+
+  readonly url: string;
+  readyState: number = ReplayWebSocket.CONNECTING;
+  private readonly recording?: CassetteWebSocket;
+  private readonly host: ReplayHost;
+  private position = 0;
+
+  constructor(url: string, recording: CassetteWebSocket | undefined, host: ReplayHost) {
+    super();
+    this.url = url;
+    this.recording = recording;
+    this.host = host;
+    setTimeout(() => this.open(), 0);
+  }
+
+  send(data: unknown): void {
+    if (this.readyState !== ReplayWebSocket.OPEN) {
+      throw new Error("WebSocket is not open");
+    }
+    const next = this.recording?.frames[this.position];
+    if (next?.direction === "out") {
+      this.position++;
+      this.flush();
+    }
+  }
+
+  close(): void {
+    if (this.readyState >= ReplayWebSocket.CLOSING) return;
+    this.readyState = ReplayWebSocket.CLOSING;
+    this.host.detach(this);
+    setTimeout(() => {
+      this.readyState = ReplayWebSocket.CLOSED;
+      this.dispatchEvent(new Event("close"));
+    }, 0);
+  }
+
+  /**
+   * Deliver every gateway frame that is due
+   */
+  flush(): void {
+    const frames = this.recording?.frames ?? [];
+    while (this.readyState === ReplayWebSocket.OPEN && this.position < frames.length) {
+      const frame = frames[this.position];
+      if (frame.direction === "out" || !this.host.reachedSeq(frame.seq)) {
+        return;
+      }
+      this.position++;
+      const data =
+        frame.encoding === "base64"
+          ? decodeBytes(frame.data, frame.encoding)
+          : frame.data;
+      setTimeout(() => {
+        if (this.readyState === ReplayWebSocket.OPEN) {
+          this.dispatchEvent(new MessageEvent("message", { data }));
+        }
+      }, 0);
+    }
+  }
+
+  private open(): void {
+    if (this.readyState !== ReplayWebSocket.CONNECTING) return;
+    if (!this.recording) {
+      const message = `No recorded WebSocket matches ${toPath(redactUrl(this.url))}`;
+      this.readyState = ReplayWebSocket.CLOSED;
+      this.dispatchEvent(Object.assign(new Event("error"), { message }));
+      this.dispatchEvent(new Event("close"));
+      return;
+    }
+    this.readyState = ReplayWebSocket.OPEN;
+    this.host.attach(this);
+    this.dispatchEvent(new Event("open"));
+    this.flush();
+  }
+}
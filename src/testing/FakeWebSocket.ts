@@ -0,0 +1,78 @@
+import type { MockPubSub } from "./MockPubSub";
+
+/**
+ * Minimal in-memory WebSocket connected to a MockPubSub instead of a server.
+ * Events fire asynchronously, like a real socket.
+ */
+export class FakeWebSocket extends EventTarget {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSING = 2;
+  static readonly CLOSED = 3;
+
+  readonly url: string;
+  readyState: number = FakeWebSocket.CONNECTING;
+  /** Frames sent by the client, in order */
+  readonly sent: string[] = [];
+  private readonly pubsub: MockPubSub;
+
+  constructor(url: string, pubsub: MockPubSub) {
+    super();
+    this.url = url;
+    this.pubsub = pubsub;
+    setTimeout(() => this.open(), 0);
+  }
+
+  send(data: string): void {
+    if (this.readyState !== FakeWebSocket.OPEN) {
+      throw new Error("WebSocket is not open");
+    }
+    this.sent.push(data);
+  }
+
+  close(code = 1000, reason = ""): void {
+    if (this.readyState >= FakeWebSocket.CLOSING) {
+      return;
+    }
+    const wasOpen = this.readyState === FakeWebSocket.OPEN;
+    this.readyState = FakeWebSocket.CLOSING;
+    if (wasOpen) {
+      this.pubsub.disconnect(this);
+    }
+    setTimeout(() => {
+      this.readyState = FakeWebSocket.CLOSED;
+      this.dispatchEvent(Object.assign(new Event("close"), { code, reason }));
+    }, 0);
+  }
+
+  /**
+   * Deliver a server frame to the client
+   */
+  receive(data: string): void {
+    setTimeout(() => {
+      if (this.readyState === FakeWebSocket.OPEN) {
+        this.dispatchEvent(new MessageEvent("message", { data }));
+      }
+    }, 0);
+  }
+
+  private open(): void {
+    // Closed before the handshake finished
+    if (this.readyState !== FakeWebSocket.CONNECTING) {
+      return;
+    }
+    try {
+      this.pubsub.connect(this, new URL(this.url));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.readyState = FakeWebSocket.CLOSED;
+      this.dispatchEvent(Object.assign(new Event("error"), { message }));
+      this.dispatchEvent(
+        Object.assign(new Event("close"), { code: 1008, reason: message })
+      );
+      return;
+    }
+    this.readyState = FakeWebSocket.OPEN;
+    this.dispatchEvent(new Event("open"));
+  }
+}
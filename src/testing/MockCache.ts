@@ -0,0 +1,111 @@
+import type {
+  CacheDeleteResponse,
+  CacheGetResponse,
+  CacheMultiGetResponse,
+  CachePutResponse,
+  CacheScanResponse,
+} from "../cache/client";
+import { MockHttpError } from "./responses";
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt?: number;
+}
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  ns: 1e-6,
+  us: 1e-3,
+  µs: 1e-3,
+  ms: 1,
+  s: 1000,
+  m: 60000,
+  h: 3600000,
+};
+
+/**
+ * Parse a Go duration string ("1h", "1m30s", "500ms") into milliseconds
+ */
+export function parseDuration(ttl: string): number {
+  const pattern = /(\d+(?:\.\d+)?)(ns|us|µs|ms|s|m|h)/g;
+  let total = 0;
+  let consumed = 0;
+  for (const match of ttl.matchAll(pattern)) {
+    total += Number(match[1]) * DURATION_UNITS_MS[match[2]];
+    consumed += match[0].length;
+  }
+  if (consumed === 0 || consumed !== ttl.length) {
+    throw new MockHttpError(400, `invalid ttl: ${ttl}`);
+  }
+  return total;
+}
+
+/**
+ * In-memory stand-in for the gateway's Olric cache routes
+ */
+export class MockCache {
+  private readonly dmaps = new Map<string, Map<string, CacheEntry>>();
+
+  get(dmap: string, key: string): CacheGetResponse {
+    const entry = this.lookup(dmap, key);
+    if (!entry) {
+      throw new MockHttpError(404, "key not found");
+    }
+    return { key, value: entry.value, dmap };
+  }
+
+  put(dmap: string, key: string, value: unknown, ttl?: string): CachePutResponse {
+    const expiresAt = ttl ? Date.now() + parseDuration(ttl) : undefined;
+    this.entries(dmap).set(key, { value, expiresAt });
+    return { status: "ok", key, dmap };
+  }
+
+  delete(dmap: string, key: string): CacheDeleteResponse {
+    this.entries(dmap).delete(key);
+    return { status: "ok", key, dmap };
+  }
+
+  multiGet(dmap: string, keys: string[]): CacheMultiGetResponse {
+    const results: CacheMultiGetResponse["results"] = [];
+    for (const key of keys) {
+      const entry = this.lookup(dmap, key);
+      if (entry) {
+        results.push({ key, value: entry.value });
+      }
+    }
+    return { results, dmap };
+  }
+
+  scan(dmap: string, match?: string): CacheScanResponse {
+    const pattern = match ? new RegExp(match) : undefined;
+    const keys = Array.from(this.entries(dmap).keys()).filter(
+      (key) => this.lookup(dmap, key) && (!pattern || pattern.test(key))
+    );
+    return { keys, count: keys.length, dmap };
+  }
+
+  reset(): void {
+    this.dmaps.clear();
+  }
+
+  private entries(dmap: string): Map<string, CacheEntry> {
+    let entries = this.dmaps.get(dmap);
+    if (!entries) {
+      entries = new Map();
+      this.dmaps.set(dmap, entries);
+    }
+    return entries;
+  }
+
+  /**
+   * Get a live entry, evicting it if its TTL has passed
+   */
+  private lookup(dmap: string, key: string): CacheEntry | undefined {
+    const entries = this.entries(dmap);
+    const entry = entries.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+}
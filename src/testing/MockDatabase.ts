@@ -0,0 +1,240 @@
+import type { Database, SqlJsStatic, SqlValue } from "sql.js";
+import type {
+  FindOptions,
+  QueryResponse,
+  SelectOptions,
+  TransactionOp,
+} from "../db/types";
+import { MockHttpError } from "./responses";
+
+/**
+ * Loads the sql.js module. Override to use a custom build or wasm location.
+ */
+export type SqlJsLoader = () => Promise<SqlJsStatic>;
+
+export interface ExecResult {
+  rows_affected: number;
+  last_insert_id?: number;
+}
+
+async function loadSqlJs(): Promise<SqlJsStatic> {
+  try {
+    const { default: initSqlJs } = await import("sql.js");
+    return await initSqlJs();
+  } catch (error) {
+    throw new Error(
+      `MockTransport needs the optional "sql.js" package for /v1/rqlite/* routes: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Convert a JSON argument into a value sql.js can bind
+ */
+function toSqlValue(value: unknown): SqlValue {
+  if (value === undefined || value === null) return null;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (typeof value === "number" || typeof value === "string") return value;
+  if (value instanceof Uint8Array) return value;
+  return JSON.stringify(value);
+}
+
+/**
+ * In-memory stand-in for the gateway's rqlite routes, backed by sql.js.
+ * The database is created on first use.
+ */
+export class MockDatabase {
+  private readonly loader: SqlJsLoader;
+  private db?: Promise<Database>;
+
+  constructor(loader: SqlJsLoader = loadSqlJs) {
+    this.loader = loader;
+  }
+
+  async exec(sql: string, args: unknown[] = []): Promise<ExecResult> {
+    const db = await this.open();
+    return this.run(() => this.execStatement(db, sql, args));
+  }
+
+  async query(sql: string, args: unknown[] = []): Promise<QueryResponse> {
+    const db = await this.open();
+    return this.run(() => this.queryStatement(db, sql, args));
+  }
+
+  async select(table: string, options: SelectOptions): Promise<QueryResponse> {
+    const args: unknown[] = [];
+    let sql = `SELECT ${options.select?.join(", ") || "*"} FROM ${table}`;
+    for (const join of options.joins ?? []) {
+      sql += ` ${join.kind} JOIN ${join.table} ON ${join.on}`;
+    }
+    sql += this.buildClauses(options, args);
+    return this.query(sql, args);
+  }
+
+  async find(
+    table: string,
+    criteria: Record<string, unknown> = {},
+    options: FindOptions = {}
+  ): Promise<QueryResponse> {
+    const where = Object.entries(criteria).map(([column, value]) => ({
+      conj: "AND" as const,
+      expr: `${column} = ?`,
+      args: [value],
+    }));
+    return this.select(table, {
+      ...options,
+      where: [...where, ...(options.where ?? [])],
+    });
+  }
+
+  async findOne(
+    table: string,
+    criteria: Record<string, unknown> = {}
+  ): Promise<Record<string, unknown>> {
+    const { items = [] } = await this.find(table, criteria, { limit: 1 });
+    if (items.length === 0) {
+      throw new MockHttpError(404, "record not found");
+    }
+    return items[0];
+  }
+
+  async transaction(
+    ops: TransactionOp[],
+    returnResults = true
+  ): Promise<{ results?: Array<ExecResult | QueryResponse> }> {
+    const db = await this.open();
+    const results = this.run(() => {
+      db.run("BEGIN");
+      try {
+        const results = ops.map((op) =>
+          op.kind === "query"
+            ? this.queryStatement(db, op.sql, op.args ?? [])
+            : this.execStatement(db, op.sql, op.args ?? [])
+        );
+        db.run("COMMIT");
+        return results;
+      } catch (error) {
+        db.run("ROLLBACK");
+        throw error;
+      }
+    });
+    return returnResults ? { results } : {};
+  }
+
+  async createTable(schema: string): Promise<void> {
+    const db = await this.open();
+    this.run(() => db.run(schema));
+  }
+
+  async dropTable(table: string): Promise<void> {
+    const db = await this.open();
+    this.run(() => db.run(`DROP TABLE IF EXISTS ${table}`));
+  }
+
+  async getSchema(): Promise<{ tables: Array<{ name: string; sql: string }> }> {
+    const { items = [] } = await this.query(
+      "SELECT name, sql FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name"
+    );
+    return { tables: items };
+  }
+
+  /**
+   * Drop all data and start from an empty database
+   */
+  async reset(): Promise<void> {
+    const db = await this.db;
+    db?.close();
+    this.db = undefined;
+  }
+
+  private open(): Promise<Database> {
+    if (!this.db) {
+      this.db = this.loader().then((SQL) => new SQL.Database());
+      // Let a failed load be retried on the next call
+      this.db.catch(() => {
+        this.db = undefined;
+      });
+    }
+    return this.db;
+  }
+
+  /**
+   * Run statements, reporting SQL errors as 400 responses
+   */
+  private run<T>(fn: () => T): T {
+    try {
+      return fn();
+    } catch (error) {
+      if (error instanceof MockHttpError) throw error;
+      throw new MockHttpError(
+        400,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+
+  private execStatement(
+    db: Database,
+    sql: string,
+    args: unknown[]
+  ): ExecResult {
+    db.run(sql, args.map(toSqlValue));
+    const rowsAffected = db.getRowsModified();
+    const [lastId] = db.exec("SELECT last_insert_rowid()")[0]?.values[0] ?? [];
+    return {
+      rows_affected: rowsAffected,
+      last_insert_id: typeof lastId === "number" && lastId > 0 ? lastId : undefined,
+    };
+  }
+
+  private queryStatement(
+    db: Database,
+    sql: string,
+    args: unknown[]
+  ): QueryResponse {
+    const statement = db.prepare(sql, args.map(toSqlValue));
+    try {
+      const columns = statement.getColumnNames();
+      const rows: SqlValue[][] = [];
+      while (statement.step()) {
+        rows.push(statement.get());
+      }
+      const items = rows.map((row) =>
+        Object.fromEntries(columns.map((column, i) => [column, row[i]]))
+      );
+      return { columns, rows, count: rows.length, items };
+    } finally {
+      statement.free();
+    }
+  }
+
+  private buildClauses(options: SelectOptions, args: unknown[]): string {
+    let sql = "";
+    const where = options.where ?? [];
+    if (where.length > 0) {
+      sql += " WHERE";
+      where.forEach((clause, i) => {
+        if (i > 0) sql += ` ${clause.conj ?? "AND"}`;
+        sql += ` (${clause.expr})`;
+        args.push(...(clause.args ?? []));
+      });
+    }
+    if (options.group_by?.length) {
+      sql += ` GROUP BY ${options.group_by.join(", ")}`;
+    }
+    if (options.order_by?.length) {
+      sql += ` ORDER BY ${options.order_by.join(", ")}`;
+    }
+    if (options.limit !== undefined) {
+      sql += ` LIMIT ${Number(options.limit)}`;
+    } else if (options.offset !== undefined) {
+      sql += " LIMIT -1";
+    }
+    if (options.offset !== undefined) {
+      sql += ` OFFSET ${Number(options.offset)}`;
+    }
+    return sql;
+  }
+}
@@ -0,0 +1,117 @@
+import type { PresenceMember, PresenceResponse, RawEnvelope } from "../pubsub/types";
+import type { FakeWebSocket } from "./FakeWebSocket";
+import { MockHttpError } from "./responses";
+
+interface Subscriber {
+  socket: FakeWebSocket;
+  topic: string;
+  member?: PresenceMember;
+}
+
+/**
+ * In-memory stand-in for the gateway's pub/sub routes. Fake WebSockets
+ * register here on open and receive the same envelopes the gateway sends.
+ */
+export class MockPubSub {
+  private readonly subscribers = new Set<Subscriber>();
+
+  /**
+   * Attach a socket opened on /v1/pubsub/ws?topic=...
+   */
+  connect(socket: FakeWebSocket, url: URL): void {
+    const topic = url.searchParams.get("topic");
+    if (url.pathname !== "/v1/pubsub/ws" || !topic) {
+      throw new MockHttpError(400, "topic is required");
+    }
+
+    const subscriber: Subscriber = { socket, topic };
+    const memberId = url.searchParams.get("member_id");
+    if (url.searchParams.get("presence") === "true" && memberId) {
+      const meta = url.searchParams.get("member_meta");
+      subscriber.member = {
+        memberId,
+        joinedAt: Date.now(),
+        meta: meta ? JSON.parse(meta) : undefined,
+      };
+      this.broadcast(topic, this.presenceEnvelope("presence.join", topic, subscriber.member));
+    }
+    this.subscribers.add(subscriber);
+  }
+
+  /**
+   * Detach a closed socket, announcing its presence member as gone
+   */
+  disconnect(socket: FakeWebSocket): void {
+    for (const subscriber of this.subscribers) {
+      if (subscriber.socket !== socket) continue;
+      this.subscribers.delete(subscriber);
+      if (subscriber.member) {
+        this.broadcast(
+          subscriber.topic,
+          this.presenceEnvelope("presence.leave", subscriber.topic, subscriber.member)
+        );
+      }
+    }
+  }
+
+  publish(topic: string, dataBase64: string): { status: string } {
+    if (!topic) {
+      throw new MockHttpError(400, "topic is required");
+    }
+    const envelope: RawEnvelope = {
+      data: dataBase64,
+      timestamp: Date.now(),
+      topic,
+    };
+    this.broadcast(topic, envelope);
+    return { status: "ok" };
+  }
+
+  topics(): { topics: string[] } {
+    const topics = new Set(
+      Array.from(this.subscribers, (subscriber) => subscriber.topic)
+    );
+    return { topics: Array.from(topics) };
+  }
+
+  presence(topic: string): PresenceResponse {
+    const members = Array.from(this.subscribers)
+      .filter((subscriber) => subscriber.topic === topic && subscriber.member)
+      .map((subscriber) => subscriber.member!);
+    return { topic, members, count: members.length };
+  }
+
+  /**
+   * Close every open socket
+   */
+  reset(): void {
+    for (const { socket } of Array.from(this.subscribers)) {
+      socket.close();
+    }
+    this.subscribers.clear();
+  }
+
+  private presenceEnvelope(
+    type: "presence.join" | "presence.leave",
+    topic: string,
+    member: PresenceMember
+  ): RawEnvelope {
+    return {
+      type,
+      data: "",
+      timestamp: Date.now(),
+      topic,
+      member_id: member.memberId,
+      meta: member.meta,
+    };
+  }
+
+  private broadcast(topic: string, envelope: RawEnvelope): void {
+    const frame = JSON.stringify(envelope);
+    for (const subscriber of this.subscribers) {
+      if (subscriber.topic === topic) {
+        subscriber.socket.receive(frame);
+      }
+    }
+  }
+}
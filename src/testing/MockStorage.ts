@@ -0,0 +1,88 @@
+import type {
+  StoragePinResponse,
+  StorageStatus,
+  StorageUploadResponse,
+} from "../storage/client";
+import { MockHttpError } from "./responses";
+
+interface StoredObject {
+  name: string;
+  data: ArrayBuffer;
+  pinned: boolean;
+}
+
+/**
+ * Derive a stable, content-addressed identifier from the SHA-256 of the data
+ */
+async function contentId(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  const hex = Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+  return `bafymock${hex}`;
+}
+
+/**
+ * In-memory stand-in for the gateway's IPFS storage routes
+ */
+export class MockStorage {
+  private readonly objects = new Map<string, StoredObject>();
+
+  async upload(
+    data: ArrayBuffer,
+    name: string,
+    pin: boolean
+  ): Promise<StorageUploadResponse> {
+    const cid = await contentId(data);
+    const existing = this.objects.get(cid);
+    this.objects.set(cid, {
+      name: name || existing?.name || cid,
+      data,
+      pinned: pin || !!existing?.pinned,
+    });
+    return { cid, name: this.objects.get(cid)!.name, size: data.byteLength };
+  }
+
+  pin(cid: string, name?: string): StoragePinResponse {
+    const object = this.find(cid);
+    object.pinned = true;
+    if (name) {
+      object.name = name;
+    }
+    return { cid, name: object.name };
+  }
+
+  unpin(cid: string): { status: string; cid: string } {
+    this.find(cid).pinned = false;
+    return { status: "ok", cid };
+  }
+
+  status(cid: string): StorageStatus {
+    const object = this.find(cid);
+    return {
+      cid,
+      name: object.name,
+      status: object.pinned ? "pinned" : "unpinned",
+      replication_min: 1,
+      replication_max: 1,
+      replication_factor: object.pinned ? 1 : 0,
+      peers: object.pinned ? ["mock-peer"] : [],
+    };
+  }
+
+  get(cid: string): ArrayBuffer {
+    return this.find(cid).data;
+  }
+
+  reset(): void {
+    this.objects.clear();
+  }
+
+  private find(cid: string): StoredObject {
+    const object = this.objects.get(cid);
+    if (!object) {
+      throw new MockHttpError(404, `content not found: ${cid}`);
+    }
+    return object;
+  }
+}
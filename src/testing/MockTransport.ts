@@ -0,0 +1,483 @@
+import type { IHttpTransport, RequestOptions } from "../core/interfaces/IHttpTransport";
+import type { HttpMethod } from "../core/http";
+import type { WSClientConfig } from "../core/ws";
+import type { ClientConfig } from "../index";
+import { SDKError } from "../errors";
+import { PathBasedAuthStrategy } from "../core/transport/AuthHeaderStrategy";
+import { sleep, toAbortError } from "../utils/abort";
+import { FakeWebSocket } from "./FakeWebSocket";
+import { MockCache } from "./MockCache";
+import { MockDatabase, SqlJsLoader } from "./MockDatabase";
+import { MockPubSub } from "./MockPubSub";
+import { MockStorage } from "./MockStorage";
+import { MockHttpError, errorResponse, jsonResponse } from "./responses";
+
+/**
+ * Serverless function emulated by the mock gateway
+ */
+export type MockFunction = (
+  input: any,
+  context: { namespace: string; name: string; headers: Record<string, string> }
+) => unknown | Promise<unknown>;
+
+/**
+ * Request received by the mock gateway
+ */
+export interface MockRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+export interface MockTransportConfig {
+  /**
+   * Base URL reported to clients. Any host is accepted. Default: "http://mock-gateway.local"
+   */
+  baseURL?: string;
+
+  apiKey?: string;
+  jwt?: string;
+
+  /**
+   * Delay every response by this long (ms), e.g. to test timeouts and cancellation
+   */
+  latencyMs?: number;
+
+  /**
+   * Custom sql.js loader for the /v1/rqlite/* routes (e.g. to locate the wasm file)
+   */
+  sqlJs?: SqlJsLoader;
+}
+
+interface RouteContext {
+  params: string[];
+  query: URLSearchParams;
+  headers: Record<string, string>;
+  body: any;
+}
+
+interface Route {
+  method: HttpMethod;
+  pattern: RegExp;
+  handle: (ctx: RouteContext) => unknown | Promise<unknown>;
+}
+
+/**
+ * In-memory fake gateway for offline tests. Emulates the rqlite (via sql.js),
+ * cache, pub/sub, storage and function invocation routes.
+ *
+ * Use it directly as an IHttpTransport, or plug its `fetch` and `WebSocket`
+ * into `createClient`:
+ *
+ * @example
+ * ```ts
+ * const gateway = new MockTransport();
+ * const client = createClient({ ...gateway.clientConfig(), apiKey: "ak_test:default" });
+ * await client.cache.put("users", "1", { name: "Alice" });
+ * ```
+ */
+export class MockTransport implements IHttpTransport {
+  readonly db: MockDatabase;
+  readonly cache = new MockCache();
+  readonly pubsub = new MockPubSub();
+  readonly storage = new MockStorage();
+  /** Every request received, in order */
+  readonly requests: MockRequest[] = [];
+
+  /**
+   * WebSocket implementation connected to the in-memory pub/sub
+   */
+  readonly WebSocket: new (url: string) => FakeWebSocket;
+
+  private baseURL: string;
+  private apiKey?: string;
+  private jwt?: string;
+  private latencyMs: number;
+  private auth: PathBasedAuthStrategy;
+  private functions = new Map<string, MockFunction>();
+  private routes: Route[];
+
+  constructor(config: MockTransportConfig = {}) {
+    this.baseURL = (config.baseURL ?? "http://mock-gateway.local").replace(
+      /\/$/,
+      ""
+    );
+    this.apiKey = config.apiKey;
+    this.jwt = config.jwt;
+    this.latencyMs = config.latencyMs ?? 0;
+    this.auth = new PathBasedAuthStrategy(config.apiKey, config.jwt);
+    this.db = new MockDatabase(config.sqlJs);
+
+    const pubsub = this.pubsub;
+    this.WebSocket = class extends FakeWebSocket {
+      constructor(url: string) {
+        super(url, pubsub);
+      }
+    };
+
+    this.routes = this.createRoutes();
+  }
+
+  /**
+   * Fetch implementation answering from the in-memory gateway
+   */
+  readonly fetch: typeof fetch = async (input, init) => {
+    if (init?.signal?.aborted) {
+      throw toAbortError(init.signal);
+    }
+    if (this.latencyMs > 0) {
+      await sleep(this.latencyMs, init?.signal ?? undefined);
+    }
+    return this.handle(new Request(input, init));
+  };
+
+  /**
+   * Client options that route HTTP and WebSocket traffic to this mock
+   */
+  clientConfig(): Pick<ClientConfig, "baseURL" | "fetch" | "wsConfig"> {
+    return {
+      baseURL: this.baseURL,
+      fetch: this.fetch,
+      wsConfig: {
+        WebSocket: this.WebSocket as unknown as WSClientConfig["WebSocket"],
+      },
+    };
+  }
+
+  /**
+   * Register a function served at /v1/invoke/{namespace}/{name}
+   */
+  registerFunction(
+    name: string,
+    handler: MockFunction,
+    namespace = "default"
+  ): void {
+    this.functions.set(`${namespace}/${name}`, handler);
+  }
+
+  /**
+   * Clear all stored data, close sockets and forget recorded requests
+   */
+  async reset(): Promise<void> {
+    this.requests.length = 0;
+    this.cache.reset();
+    this.pubsub.reset();
+    this.storage.reset();
+    await this.db.reset();
+  }
+
+  async get<T = any>(path: string, options?: RequestOptions): Promise<T> {
+    return this.request<T>("GET", path, undefined, options);
+  }
+
+  async post<T = any>(
+    path: string,
+    body?: any,
+    options?: RequestOptions
+  ): Promise<T> {
+    return this.request<T>("POST", path, body, options);
+  }
+
+  async put<T = any>(
+    path: string,
+    body?: any,
+    options?: RequestOptions
+  ): Promise<T> {
+    return this.request<T>("PUT", path, body, options);
+  }
+
+  async delete<T = any>(path: string, options?: RequestOptions): Promise<T> {
+    return this.request<T>("DELETE", path, undefined, options);
+  }
+
+  async uploadFile<T = any>(
+    path: string,
+    formData: FormData,
+    options: { timeout?: number; signal?: AbortSignal } = {}
+  ): Promise<T> {
+    const response = await this.send("POST", path, formData, options);
+    return this.parse<T>(response);
+  }
+
+  async getBinary(
+    path: string,
+    options: { signal?: AbortSignal } = {}
+  ): Promise<Response> {
+    return this.send("GET", path, undefined, options);
+  }
+
+  getBaseURL(): string {
+    return this.baseURL;
+  }
+
+  getApiKey(): string | undefined {
+    return this.apiKey;
+  }
+
+  getToken(): string | undefined {
+    return this.jwt ?? this.apiKey;
+  }
+
+  setApiKey(apiKey?: string): void {
+    this.apiKey = apiKey;
+    this.auth.setApiKey(apiKey);
+  }
+
+  setJwt(jwt?: string): void {
+    this.jwt = jwt;
+    this.auth.setJwt(jwt);
+  }
+
+  private async request<T>(
+    method: HttpMethod,
+    path: string,
+    body?: any,
+    options: RequestOptions = {}
+  ): Promise<T> {
+    const headers: Record<string, string> = { ...options.headers };
+    let payload: BodyInit | undefined;
+    if (body !== undefined) {
+      headers["Content-Type"] = "application/json";
+      payload = JSON.stringify(body);
+    }
+    const response = await this.send(method, path, payload, {
+      ...options,
+      headers,
+    });
+    return this.parse<T>(response);
+  }
+
+  private async send(
+    method: HttpMethod,
+    path: string,
+    body: BodyInit | undefined,
+    options: RequestOptions
+  ): Promise<Response> {
+    const url = new URL(`${this.baseURL}${path}`);
+    for (const [key, value] of Object.entries(options.query ?? {})) {
+      url.searchParams.set(key, String(value));
+    }
+    const headers: Record<string, string> = {
+      ...this.auth.getHeaders({ path, method }),
+      ...options.headers,
+    };
+
+    const response = await this.fetch(url, {
+      method,
+      headers,
+      body,
+      signal: options.signal,
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw SDKError.fromResponse(
+        response.status,
+        error,
+        undefined,
+        response.headers,
+        path
+      );
+    }
+    return response;
+  }
+
+  private async parse<T>(response: Response): Promise<T> {
+    const text = await response.text();
+    if (response.headers.get("content-type")?.includes("application/json")) {
+      return JSON.parse(text);
+    }
+    return text as T;
+  }
+
+  private async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const headers = Object.fromEntries(request.headers.entries());
+    const recorded: MockRequest = {
+      method: request.method,
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams.entries()),
+      headers,
+    };
+    this.requests.push(recorded);
+    let body: any;
+    try {
+      body = await this.readBody(request);
+    } catch (error) {
+      if (error instanceof MockHttpError) {
+        return errorResponse(error.status, error.message);
+      }
+      return errorResponse(400, "invalid request body");
+    }
+    recorded.body = body;
+
+    for (const route of this.routes) {
+      const match = route.pattern.exec(url.pathname);
+      if (!match || route.method !== request.method) continue;
+      try {
+        const result = await route.handle({
+          params: match.slice(1).map(decodeURIComponent),
+          query: url.searchParams,
+          headers,
+          body,
+        });
+        return result instanceof Response
+          ? result
+          : jsonResponse(200, result ?? null);
+      } catch (error) {
+        if (error instanceof MockHttpError) {
+          return errorResponse(error.status, error.message);
+        }
+        return errorResponse(
+          500,
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+    }
+    return errorResponse(404, `no mock route for ${request.method} ${url.pathname}`);
+  }
+
+  /**
+   * Parse a JSON or multipart body. Like a gateway without compression or
+   * binary format support, other encodings are rejected with 415.
+   */
+  private async readBody(request: Request): Promise<any> {
+    const contentType = request.headers.get("content-type") ?? "";
+    if (contentType.includes("multipart/form-data")) {
+      return request.formData();
+    }
+    const text = await request.text();
+    if (!text) {
+      return undefined;
+    }
+    const contentEncoding = request.headers.get("content-encoding");
+    if (contentEncoding) {
+      throw new MockHttpError(415, `unsupported content encoding: ${contentEncoding}`);
+    }
+    if (contentType && !contentType.includes("application/json")) {
+      throw new MockHttpError(415, `unsupported content type: ${contentType}`);
+    }
+    return JSON.parse(text);
+  }
+
+  private createRoutes(): Route[] {
+    const route = (
+      method: HttpMethod,
+      path: string,
+      handle: Route["handle"]
+    ): Route => ({
+      method,
+      // ":param" segments capture one path segment
+      pattern: new RegExp(`^${path.replace(/:\w+/g, "([^/]+)")}$`),
+      handle,
+    });
+
+    return [
+      route("GET", "/v1/health", () => ({ status: "ok" })),
+      route("GET", "/v1/network/status", () => ({
+        node_id: "mock-node",
+        connected: true,
+        peer_count: 0,
+        database_size: 0,
+        uptime: 0,
+      })),
+
+      route("POST", "/v1/rqlite/exec", ({ body }) =>
+        this.db.exec(body.sql, body.args)
+      ),
+      route("POST", "/v1/rqlite/query", ({ body }) =>
+        this.db.query(body.sql, body.args)
+      ),
+      route("POST", "/v1/rqlite/find", ({ body }) =>
+        this.db.find(body.table, body.criteria, body.options)
+      ),
+      route("POST", "/v1/rqlite/find-one", ({ body }) =>
+        this.db.findOne(body.table, body.criteria)
+      ),
+      route("POST", "/v1/rqlite/select", ({ body }) => {
+        const { table, ...options } = body;
+        return this.db.select(table, options);
+      }),
+      route("POST", "/v1/rqlite/transaction", ({ body }) =>
+        this.db.transaction(body.ops ?? [], body.return_results)
+      ),
+      route("POST", "/v1/rqlite/create-table", async ({ body }) => {
+        await this.db.createTable(body.schema);
+        return { status: "ok" };
+      }),
+      route("POST", "/v1/rqlite/drop-table", async ({ body }) => {
+        await this.db.dropTable(body.table);
+        return { status: "ok" };
+      }),
+      route("GET", "/v1/rqlite/schema", () => this.db.getSchema()),
+
+      route("GET", "/v1/cache/health", () => ({
+        status: "ok",
+        service: "olric",
+      })),
+      route("POST", "/v1/cache/get", ({ body }) =>
+        this.cache.get(body.dmap, body.key)
+      ),
+      route("POST", "/v1/cache/put", ({ body }) =>
+        this.cache.put(body.dmap, body.key, body.value, body.ttl)
+      ),
+      route("POST", "/v1/cache/delete", ({ body }) =>
+        this.cache.delete(body.dmap, body.key)
+      ),
+      route("POST", "/v1/cache/mget", ({ body }) =>
+        this.cache.multiGet(body.dmap, body.keys ?? [])
+      ),
+      route("POST", "/v1/cache/scan", ({ body }) =>
+        this.cache.scan(body.dmap, body.match)
+      ),
+
+      route("POST", "/v1/pubsub/publish", ({ body }) =>
+        this.pubsub.publish(body.topic, body.data_base64)
+      ),
+      route("GET", "/v1/pubsub/topics", () => this.pubsub.topics()),
+      route("GET", "/v1/pubsub/presence", ({ query }) =>
+        this.pubsub.presence(query.get("topic") ?? "")
+      ),
+
+      route("POST", "/v1/storage/upload", async ({ body }) => {
+        const file = body instanceof FormData ? body.get("file") : null;
+        if (!(file instanceof Blob)) {
+          throw new MockHttpError(400, "file is required");
+        }
+        return this.storage.upload(
+          await file.arrayBuffer(),
+          file instanceof File ? file.name : "",
+          body.get("pin") !== "false"
+        );
+      }),
+      route("POST", "/v1/storage/pin", ({ body }) =>
+        this.storage.pin(body.cid, body.name)
+      ),
+      route("GET", "/v1/storage/status/:cid", ({ params }) =>
+        this.storage.status(params[0])
+      ),
+      route("GET", "/v1/storage/get/:cid", ({ params }) => {
+        const data = this.storage.get(params[0]);
+        return new Response(data, {
+          headers: {
+            "content-type": "application/octet-stream",
+            "content-length": String(data.byteLength),
+          },
+        });
+      }),
+      route("DELETE", "/v1/storage/unpin/:cid", ({ params }) =>
+        this.storage.unpin(params[0])
+      ),
+
+      route("POST", "/v1/invoke/:namespace/:name", ({ params, body, headers }) => {
+        const [namespace, name] = params;
+        const handler = this.functions.get(`${namespace}/${name}`);
+        if (!handler) {
+          throw new MockHttpError(404, `function not found: ${namespace}/${name}`);
+        }
+        return handler(body, { namespace, name, headers });
+      }),
+    ];
+  }
+}
@@ -0,0 +1,8 @@
+export { MockTransport, type MockTransportConfig, type MockFunction, type MockRequest } from "./MockTransport";
+export { FakeWebSocket } from "./FakeWebSocket";
+export { MockDatabase, type SqlJsLoader, type ExecResult } from "./MockDatabase";
+export { MockCache, parseDuration } from "./MockCache";
+export { MockPubSub } from "./MockPubSub";
+export { MockStorage } from "./MockStorage";
+export { MockHttpError } from "./responses";
+export { Cassette, CassetteMismatchError, type CassetteConfig, type CassetteData, type CassetteFrame, type CassetteInteraction, type CassetteMatchField, type CassetteMatcher, type CassetteMode, type CassetteRedactionOptions, type CassetteRequest, type CassetteResponse, type CassetteWebSocket } from "./Cassette";
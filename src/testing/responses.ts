@@ -0,0 +1,29 @@
+/**
+ * Thrown by mock route handlers to answer with a gateway error response
+ */
+export class MockHttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "MockHttpError";
+    this.status = status;
+  }
+}
+
+/**
+ * Build a JSON response the way the gateway sends it
+ */
+export function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+/**
+ * Build a gateway error response (`{"error": "..."}`)
+ */
+export function errorResponse(status: number, message: string): Response {
+  return jsonResponse(status, { error: message });
+}
@@ -0,0 +1,111 @@
+import { AbortError, TimeoutError } from "../errors";
+
+/**
+ * Signal combining the caller's AbortSignals with a timeout
+ */
+export interface LinkedSignal {
+  signal: AbortSignal;
+  /**
+   * Stop the timer and detach from the caller's signal
+   */
+  clear(): void;
+}
+
+/**
+ * Error to reject with once `signal` has aborted: a TimeoutError for timeouts
+ * (including `AbortSignal.timeout()`), an AbortError for everything else.
+ */
+export function toAbortError(signal: AbortSignal): AbortError | TimeoutError {
+  const reason = signal.reason;
+  if (reason instanceof AbortError || reason instanceof TimeoutError) {
+    return reason;
+  }
+  if (reason instanceof Error && reason.name === "TimeoutError") {
+    return new TimeoutError(reason.message);
+  }
+  return new AbortError(reason);
+}
+
+/**
+ * Create a signal that aborts when any of the given signals aborts (with an
+ * AbortError, or the error it was aborted with) or when `timeoutMs` elapses
+ * (with a TimeoutError).
+ */
+export function linkSignal(
+  signal: AbortSignal | undefined | Array<AbortSignal | undefined>,
+  timeoutMs: number
+): LinkedSignal {
+  const controller = new AbortController();
+  const sources = (Array.isArray(signal) ? signal : [signal]).filter(
+    (source): source is AbortSignal => source !== undefined
+  );
+  const listeners = sources.map((source) => ({
+    source,
+    onAbort: () => controller.abort(toAbortError(source)),
+  }));
+
+  const timeoutId = setTimeout(() => {
+    controller.abort(new TimeoutError(`Request timed out after ${timeoutMs}ms`));
+  }, timeoutMs);
+
+  const clear = () => {
+    clearTimeout(timeoutId);
+    for (const { source, onAbort } of listeners) {
+      source.removeEventListener("abort", onAbort);
+    }
+  };
+  // Detach once aborted, so long-lived sources don't collect listeners
+  controller.signal.addEventListener("abort", clear, { once: true });
+
+  for (const { source, onAbort } of listeners) {
+    if (controller.signal.aborted) {
+      break;
+    }
+    if (source.aborted) {
+      onAbort();
+    } else {
+      source.addEventListener("abort", onAbort, { once: true });
+    }
+  }
+
+  return { signal: controller.signal, clear };
+}
+
+/**
+ * Wait for `ms`, rejecting early if any of the given signals aborts
+ */
+export function sleep(
+  ms: number,
+  signal?: AbortSignal | Array<AbortSignal | undefined>
+): Promise<void> {
+  const sources = (Array.isArray(signal) ? signal : [signal]).filter(
+    (source): source is AbortSignal => source !== undefined
+  );
+  return new Promise((resolve, reject) => {
+    const aborted = sources.find((source) => source.aborted);
+    if (aborted) {
+      reject(toAbortError(aborted));
+      return;
+    }
+    const detach = () => {
+      for (const { source, onAbort } of listeners) {
+        source.removeEventListener("abort", onAbort);
+      }
+    };
+    const listeners = sources.map((source) => ({
+      source,
+      onAbort: () => {
+        clearTimeout(timeoutId);
+        detach();
+        reject(toAbortError(source));
+      },
+    }));
+    const timeoutId = setTimeout(() => {
+      detach();
+      resolve();
+    }, ms);
+    for (const { source, onAbort } of listeners) {
+      source.addEventListener("abort", onAbort, { once: true });
+    }
+  });
+}
@@ -0,0 +1,33 @@
+/**
+ * Byte size helpers for request bodies and payloads
+ */
+
+/**
+ * UTF-8 byte length of a string
+ */
+export function utf8ByteLength(str: string): number {
+  return new TextEncoder().encode(str).length;
+}
+
+/**
+ * Best-effort byte length of a fetch body.
+ * Streams and unknown body types count as 0.
+ */
+export function bodyByteLength(body: BodyInit | null | undefined): number {
+  if (body === null || body === undefined) return 0;
+  if (typeof body === "string") return utf8ByteLength(body);
+  if (typeof Blob !== "undefined" && body instanceof Blob) return body.size;
+  if (body instanceof ArrayBuffer) return body.byteLength;
+  if (ArrayBuffer.isView(body)) return body.byteLength;
+  if (typeof URLSearchParams !== "undefined" && body instanceof URLSearchParams) {
+    return utf8ByteLength(body.toString());
+  }
+  if (typeof FormData !== "undefined" && body instanceof FormData) {
+    let size = 0;
+    body.forEach((value) => {
+      size += typeof value === "string" ? utf8ByteLength(value) : value.size;
+    });
+    return size;
+  }
+  return 0;
+}
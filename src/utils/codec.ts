@@ -59,6 +59,22 @@ export class Base64Codec {
     return new TextDecoder().decode(bytes);
   }
 
+  /**
+   * Decode base64 to bytes
+   */
+  static decodeBytes(b64: string): Uint8Array {
+    if (this.isNode()) {
+      return new Uint8Array(Buffer.from(b64, "base64"));
+    }
+    // Browser
+    const binary = atob(b64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  }
+
   /**
    * Check if running in Node.js environment
    */
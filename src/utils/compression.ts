@@ -0,0 +1,52 @@
+/**
+ * Request body compression for Node.js and browsers
+ */
+import { Platform } from "./platform";
+
+export type CompressionAlgorithm = "gzip" | "br";
+
+/**
+ * Algorithm actually usable in this runtime: Brotli needs node:zlib and
+ * falls back to gzip elsewhere; undefined when nothing is available
+ */
+export function availableCompression(
+  algorithm: CompressionAlgorithm
+): CompressionAlgorithm | undefined {
+  if (Platform.isNode()) {
+    return algorithm;
+  }
+  return typeof CompressionStream !== "undefined" ? "gzip" : undefined;
+}
+
+function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+  return bytes.buffer.slice(
+    bytes.byteOffset,
+    bytes.byteOffset + bytes.byteLength
+  ) as ArrayBuffer;
+}
+
+/**
+ * Compress bytes with an algorithm returned by availableCompression
+ */
+export async function compressBytes(
+  data: Uint8Array,
+  algorithm: CompressionAlgorithm
+): Promise<ArrayBuffer> {
+  if (Platform.isNode()) {
+    const zlib = await import("node:zlib");
+    const compressed = await new Promise<Uint8Array>((resolve, reject) => {
+      const done = (error: Error | null, result: Uint8Array) =>
+        error ? reject(error) : resolve(result);
+      if (algorithm === "br") {
+        zlib.brotliCompress(data, done);
+      } else {
+        zlib.gzip(data, done);
+      }
+    });
+    return toArrayBuffer(compressed);
+  }
+  const stream = new Blob([toArrayBuffer(data)])
+    .stream()
+    .pipeThrough(new CompressionStream("gzip"));
+  return new Response(stream).arrayBuffer();
+}
@@ -0,0 +1,82 @@
+import { TimeoutError } from "../errors";
+import type { CallOptions } from "../core/http";
+
+/**
+ * Header carrying the milliseconds left before the caller's deadline, so the
+ * gateway can stop work the client will no longer wait for
+ */
+export const DEADLINE_HEADER = "X-Request-Timeout-Ms";
+
+/**
+ * Point in time by which a call (or several calls sharing it) must finish,
+ * including retries and backoff waits. Expiry rejects with a TimeoutError
+ * whose code is DEADLINE_EXCEEDED.
+ */
+export class Deadline {
+  /** When the deadline expires (ms since epoch) */
+  readonly expiresAt: number;
+  private controller?: AbortController;
+
+  constructor(timeoutMs: number) {
+    this.expiresAt = Date.now() + Math.max(0, timeoutMs);
+  }
+
+  /**
+   * A budget in ms starts a new deadline; a Deadline is shared as is
+   */
+  static from(value: number | Deadline | undefined): Deadline | undefined {
+    return typeof value === "number" ? new Deadline(value) : value;
+  }
+
+  /**
+   * Milliseconds left, never negative
+   */
+  remaining(): number {
+    return Math.max(0, this.expiresAt - Date.now());
+  }
+
+  isExpired(): boolean {
+    return this.remaining() === 0;
+  }
+
+  /**
+   * Signal that aborts with a DEADLINE_EXCEEDED TimeoutError on expiry
+   */
+  get signal(): AbortSignal {
+    if (!this.controller) {
+      const controller = new AbortController();
+      const expire = () =>
+        controller.abort(
+          new TimeoutError("Deadline exceeded", 408, "DEADLINE_EXCEEDED")
+        );
+      const remaining = this.remaining();
+      if (remaining === 0) {
+        expire();
+      } else {
+        const timer = setTimeout(expire, remaining);
+        // An unused deadline must not keep Node.js processes alive
+        (timer as { unref?: () => void }).unref?.();
+      }
+      this.controller = controller;
+    }
+    return this.controller.signal;
+  }
+}
+
+/**
+ * Call options bounding one or more calls to `timeoutMs` from now in total.
+ * Pass the same options to several calls to share the budget:
+ *
+ * @example
+ * ```ts
+ * const options = withDeadline(2000);
+ * const user = await client.db.findOne("users", { id }, options);
+ * await client.cache.put("users", id, user, undefined, options);
+ * ```
+ */
+export function withDeadline<T extends CallOptions>(
+  timeoutMs: number,
+  options?: T
+): T & { deadline: Deadline } {
+  return { ...(options as T), deadline: new Deadline(timeoutMs) };
+}
@@ -1,3 +1,8 @@
 export { Base64Codec } from "./codec";
 export { retryWithBackoff, type RetryConfig } from "./retry";
 export { Platform } from "./platform";
+export { utf8ByteLength, bodyByteLength } from "./bytes";
+export { linkSignal, sleep, toAbortError, type LinkedSignal } from "./abort";
+export { generateIdempotencyKey, IDEMPOTENCY_KEY_HEADER } from "./idempotency";
+export { Deadline, DEADLINE_HEADER, withDeadline } from "./deadline";
+export { availableCompression, compressBytes, type CompressionAlgorithm } from "./compression";
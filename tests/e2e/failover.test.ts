@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { createTestClient, getGatewayUrl, skipIfNoGateway } from "./setup";
+import { HttpClient } from "../../src/index";
+
+// Offline coverage lives in tests/offline/failover.test.ts
+describe.skipIf(skipIfNoGateway())("Gateway failover", () => {
+  const unreachable = "http://127.0.0.1:1";
+
+  it("should fail over from an unreachable gateway", async () => {
+    const switches: string[] = [];
+    const client = await createTestClient({
+      baseURL: [unreachable, getGatewayUrl()],
+      failover: { onFailover: (from, to) => switches.push(`${from}->${to}`) },
+    });
+
+    const status = await client.network.status();
+    expect(typeof status.connected).toBe("boolean");
+    expect(switches).toEqual([`${unreachable}->${getGatewayUrl()}`]);
+  });
+
+  it("should probe gateway health", async () => {
+    const http = new HttpClient({ baseURL: [unreachable, getGatewayUrl()] });
+    const states = await http.checkGatewayHealth();
+
+    expect(states.map((s) => s.healthy)).toEqual([false, true]);
+    expect(http.getBaseURL()).toBe(getGatewayUrl());
+  });
+});
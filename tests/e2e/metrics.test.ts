@@ -0,0 +1,31 @@
+import { describe, it, expect } from "vitest";
+import { createTestClient, skipIfNoGateway } from "./setup";
+import { MetricsCollector } from "../../src/index";
+
+// Offline coverage lives in tests/offline/metrics.test.ts
+describe.skipIf(skipIfNoGateway())("Metrics", () => {
+  it("should count requests per service and route", async () => {
+    const metrics = new MetricsCollector();
+    const client = await createTestClient({ metrics });
+
+    await client.network.health();
+    await client.network.status();
+
+    const { requests, requestDuration } = metrics.snapshot();
+    const health = requests.find((s) => s.labels.route === "/v1/health");
+    expect(health?.labels.service).toBe("health");
+    expect(health?.value).toBe(1);
+    expect(requestDuration.length).toBeGreaterThanOrEqual(2);
+  });
+
+  it("should render Prometheus text format", async () => {
+    const metrics = new MetricsCollector();
+    const client = await createTestClient({ metrics });
+
+    await client.network.health();
+
+    const text = metrics.toPrometheus();
+    expect(text).toContain("# TYPE debros_requests_total counter");
+    expect(text).toMatch(/debros_request_duration_seconds_bucket\{.*le="\+Inf"\} 1/);
+  });
+});
@@ -1,4 +1,4 @@
-import { createClient } from "../../src/index";
+import { createClient, ClientConfig } from "../../src/index";
 import { SDKError } from "../../src/errors";
 
 export function getGatewayUrl(): string {
@@ -25,11 +25,12 @@ export function skipIfNoGateway() {
   return false;
 }
 
-export async function createTestClient() {
+export async function createTestClient(overrides: Partial<ClientConfig> = {}) {
   const client = createClient({
     baseURL: getGatewayUrl(),
     apiKey: getApiKey(),
     jwt: getJwt(),
+    ...overrides,
   });
 
   return client;
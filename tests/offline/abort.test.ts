@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { AbortError, createClient } from "../../src/index";
+import { MockTransport } from "../../src/testing";
+
+describe("Cancellation", () => {
+  it("should reject with AbortError for an aborted signal", async () => {
+    const gateway = new MockTransport();
+    const client = createClient(gateway.clientConfig());
+    const controller = new AbortController();
+    controller.abort("cancelled by test");
+
+    const error = await client.db
+      .query("SELECT 1", [], { signal: controller.signal })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(AbortError);
+    expect(error.reason).toBe("cancelled by test");
+    expect(gateway.requests).toHaveLength(0);
+  });
+
+  it("should cancel cache reads in flight", async () => {
+    const gateway = new MockTransport({ latencyMs: 1000 });
+    const client = createClient(gateway.clientConfig());
+    const controller = new AbortController();
+
+    const started = Date.now();
+    const pending = client.cache.get("test-dmap", "missing-key", {
+      signal: controller.signal,
+    });
+    setTimeout(() => controller.abort(), 20);
+
+    await expect(pending).rejects.toBeInstanceOf(AbortError);
+    expect(Date.now() - started).toBeLessThan(500);
+  });
+});
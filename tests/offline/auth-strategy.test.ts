@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { createClient, PathBasedAuthStrategy } from "../../src/index";
+import type { AuthPolicy, IAuthStrategy } from "../../src/index";
+import { MockTransport } from "../../src/testing";
+
+describe("Auth strategies", () => {
+  it("should apply per-route policies on top of the path-based defaults", async () => {
+    const gateway = new MockTransport();
+    const client = createClient({
+      ...gateway.clientConfig(),
+      apiKey: "ak_test:default",
+      jwt: "header.payload.signature",
+      auth: new PathBasedAuthStrategy(undefined, undefined, {
+        rules: [{ pattern: /^\/v1\/health$/, policy: "none" }],
+      }),
+    });
+
+    await client.network.health();
+    await client.cache.health();
+    await client.functions.invoke("missing", {}).catch(() => undefined);
+
+    const [health, cache, invoke] = gateway.requests;
+    expect(health.headers["x-api-key"]).toBeUndefined();
+    expect(health.headers["authorization"]).toBeUndefined();
+    expect(cache.headers["x-api-key"]).toBe("ak_test:default");
+    expect(cache.headers["authorization"]).toBeUndefined();
+    expect(invoke.headers["authorization"]).toBe(
+      "Bearer header.payload.signature"
+    );
+  });
+
+  it("should fall back to the other credential only for -only policies", () => {
+    const headersFor = (policy: AuthPolicy, apiKey?: string, jwt?: string) =>
+      new PathBasedAuthStrategy(apiKey, jwt, {
+        defaultPolicy: policy,
+      }).getHeaders({ method: "GET", path: "/v1/status" });
+    const key = { "X-API-Key": "ak" };
+    const bearer = { Authorization: "Bearer jwt" };
+
+    expect(headersFor("api-key-only", "ak", "jwt")).toEqual(key);
+    expect(headersFor("api-key-only", undefined, "jwt")).toEqual(bearer);
+    expect(headersFor("jwt-only", "ak", "jwt")).toEqual(bearer);
+    expect(headersFor("jwt-only", "ak")).toEqual(key);
+    expect(headersFor("both", "ak", "jwt")).toEqual({ ...key, ...bearer });
+    expect(headersFor("both", "ak")).toEqual(key);
+    expect(headersFor("none", "ak", "jwt")).toEqual({});
+  });
+
+  it("should let a custom strategy sign the serialized body", async () => {
+    const gateway = new MockTransport();
+    const signer: IAuthStrategy = {
+      async getHeaders({ method, path, body }) {
+        return { "X-Signature": `${method} ${path} ${body ?? ""}` };
+      },
+      setApiKey() {},
+      setJwt() {},
+    };
+    const client = createClient({ ...gateway.clientConfig(), auth: signer });
+
+    await client.cache.put("dmap", "key", 1);
+
+    const [put] = gateway.requests;
+    expect(put.headers["x-signature"]).toBe(
+      'POST /v1/cache/put {"dmap":"dmap","key":"key","value":1}'
+    );
+  });
+});
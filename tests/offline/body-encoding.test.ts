@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { gunzipSync } from "node:zlib";
+import { decode, encode } from "@msgpack/msgpack";
+import { createClient } from "../../src/index";
+import { MockTransport } from "../../src/testing";
+
+describe("Body encoding", () => {
+  it("should send compressed MessagePack and decode MessagePack responses", async () => {
+    const sent: { headers: Headers; body: Uint8Array }[] = [];
+    const client = createClient({
+      baseURL: "http://gateway.local",
+      encoding: {
+        format: "msgpack",
+        compression: "gzip",
+        compressionThreshold: 64,
+      },
+      maxRetries: 0,
+      fetch: async (_input, init) => {
+        sent.push({
+          headers: new Headers(init?.headers),
+          body: new Uint8Array(await new Response(init?.body).arrayBuffer()),
+        });
+        const reply = encode({ results: [{ rows_affected: 2 }] });
+        return new Response(reply, {
+          headers: { "Content-Type": "application/msgpack" },
+        });
+      },
+    });
+
+    const ops = [
+      {
+        kind: "exec" as const,
+        sql: "INSERT INTO t VALUES (?)",
+        args: ["x".repeat(100)],
+      },
+    ];
+    const results = await client.db.transaction(ops);
+
+    expect(results).toEqual([{ rows_affected: 2 }]);
+    const [{ headers, body }] = sent;
+    expect(headers.get("content-type")).toBe("application/msgpack");
+    expect(headers.get("content-encoding")).toBe("gzip");
+    expect(headers.get("accept")).toContain("application/msgpack");
+    expect(decode(gunzipSync(body))).toMatchObject({ ops });
+  });
+
+  it("should fall back to plain JSON when the gateway answers 415", async () => {
+    const gateway = new MockTransport();
+    const client = createClient({
+      ...gateway.clientConfig(),
+      encoding: { format: "cbor", compression: "br", compressionThreshold: 0 },
+      maxRetries: 0,
+    });
+
+    await client.cache.put("users", "1", { name: "Alice" });
+    await client.cache.put("users", "2", { name: "Bob" });
+
+    expect((await client.cache.get("users", "1"))?.value).toEqual({
+      name: "Alice",
+    });
+    const puts = gateway.requests
+      .filter((r) => r.path === "/v1/cache/put")
+      .map((r) => [r.headers["content-type"], r.headers["content-encoding"]]);
+    expect(puts).toEqual([
+      ["application/cbor", "br"],
+      ["application/json", "br"],
+      ["application/json", undefined],
+      ["application/json", undefined],
+    ]);
+  });
+});
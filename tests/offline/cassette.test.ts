@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { createClient, PubSubMessage } from "../../src/index";
+import { Cassette, CassetteData, MockTransport } from "../../src/testing";
+
+const API_KEY = "ak_secretkey123:default";
+
+async function exercise(client: ReturnType<typeof createClient>) {
+  const received: PubSubMessage[] = [];
+  const subscription = await client.pubsub.subscribe("news", {
+    onMessage: (message) => received.push(message),
+  });
+  await client.cache.put("sessions", "abc", { user: 1 });
+  const cached = await client.cache.get("sessions", "abc");
+  await client.pubsub.publish("news", "hello");
+  await new Promise((resolve) => setTimeout(resolve, 20));
+  subscription.close();
+  return { cached: cached?.value, messages: received.map((m) => m.data) };
+}
+
+describe("Cassette", () => {
+  it("should record traffic and replay it without a gateway", async () => {
+    const gateway = new MockTransport();
+    const recorder = new Cassette({
+      mode: "record",
+      fetch: gateway.fetch,
+      WebSocket: gateway.clientConfig().wsConfig!.WebSocket,
+    });
+    const recorded = await exercise(
+      createClient({
+        baseURL: gateway.getBaseURL(),
+        apiKey: API_KEY,
+        ...recorder.clientConfig(),
+      })
+    );
+
+    const data: CassetteData = JSON.parse(JSON.stringify(recorder));
+    expect(JSON.stringify(data)).not.toContain("secretkey123");
+    expect(data.websockets[0].frames).toHaveLength(1);
+
+    const player = new Cassette({ mode: "replay", data });
+    const replayed = await exercise(
+      createClient({
+        baseURL: "http://ci.invalid",
+        apiKey: "ak_otherkey:default",
+        maxRetries: 0,
+        ...player.clientConfig(),
+      })
+    );
+    expect(replayed).toEqual(recorded);
+    expect(replayed.messages).toEqual(["hello"]);
+    expect(player.unusedInteractions()).toHaveLength(0);
+  });
+
+  it("should reject requests that were not recorded", async () => {
+    const player = new Cassette({
+      data: { version: 1, interactions: [], websockets: [] },
+    });
+    const client = createClient({
+      baseURL: "http://ci.invalid",
+      maxRetries: 0,
+      ...player.clientConfig(),
+    });
+    await expect(client.cache.get("sessions", "abc")).rejects.toThrow(
+      "No recorded interaction matches POST /v1/cache/get"
+    );
+  });
+});
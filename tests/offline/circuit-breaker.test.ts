@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { CircuitStateChange, HttpClient, NetworkError } from "../../src/index";
+import { MockTransport } from "../../src/testing";
+
+describe("Circuit breaker", () => {
+  it("should fail fast once the circuit opens", async () => {
+    const gateway = new MockTransport();
+    let rqliteDown = true;
+    let sent = 0;
+    const changes: CircuitStateChange[] = [];
+    const http = new HttpClient({
+      baseURL: "http://mock-gateway.local",
+      maxRetries: 0,
+      circuitBreaker: {
+        failureThreshold: 1,
+        resetTimeoutMs: 50,
+        onStateChange: (change) => changes.push(change),
+      },
+      fetch: (input, init) => {
+        sent++;
+        return rqliteDown && String(input).includes("/v1/rqlite/")
+          ? Promise.reject(new TypeError("fetch failed"))
+          : gateway.fetch(input, init);
+      },
+    });
+
+    await expect(http.get("/v1/rqlite/schema")).rejects.toBeInstanceOf(
+      NetworkError
+    );
+    await expect(http.get("/v1/rqlite/schema")).rejects.toMatchObject({
+      code: "CIRCUIT_OPEN",
+    });
+    expect(sent).toBe(1);
+    expect(http.getCircuitStates()[0]).toMatchObject({
+      routePrefix: "/v1/rqlite/",
+      state: "open",
+    });
+
+    // Other route prefixes keep their own circuit
+    await expect(http.get("/v1/network/status")).resolves.toMatchObject({
+      connected: true,
+    });
+
+    // After the reset timeout a trial request closes the circuit again
+    rqliteDown = false;
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    await expect(http.get("/v1/rqlite/schema")).resolves.toBeDefined();
+    expect(changes.map((c) => `${c.from}->${c.to}`)).toEqual([
+      "closed->open",
+      "open->half-open",
+      "half-open->closed",
+    ]);
+  });
+});
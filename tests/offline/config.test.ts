@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import {
+  clientConfigFromEnv,
+  ConfigurationError,
+  createClient,
+  createClientFromEnv,
+  ExponentialBackoffRetryPolicy,
+} from "../../src/index";
+
+describe("Client configuration", () => {
+  it("should build the config from a preset, DEBROS_* variables and overrides", () => {
+    const config = clientConfigFromEnv(
+      { apiKey: "ak_override:default" },
+      {
+        env: {
+          DEBROS_ENV: "production",
+          DEBROS_GATEWAY_URL: "https://gw1.example.com, https://gw2.example.com",
+          DEBROS_API_KEY: "ak_env:default",
+          DEBROS_TIMEOUT_MS: "5000",
+          DEBROS_DEBUG: "false",
+        },
+      }
+    );
+
+    expect(config).toMatchObject({
+      baseURL: ["https://gw1.example.com", "https://gw2.example.com"],
+      apiKey: "ak_override:default",
+      timeout: 5000,
+      maxRetries: 3,
+      debug: false,
+      circuitBreaker: {},
+    });
+    expect(
+      clientConfigFromEnv({}, { env: { DEBROS_ENV: "local" } }).baseURL
+    ).toBe("http://localhost:6001");
+  });
+
+  it("should require a preset or gateway URL instead of assuming local", () => {
+    expect(() => clientConfigFromEnv({}, { env: {} })).toThrow(
+      /DEBROS_GATEWAY_URL is required without a preset; set DEBROS_ENV=local/
+    );
+
+    const config = clientConfigFromEnv(
+      {},
+      { env: { DEBROS_GATEWAY_URL: "https://gw.example.com" } }
+    );
+    expect(config).toEqual({ baseURL: "https://gw.example.com" });
+  });
+
+  it("should report unparsable variables and a missing gateway URL", () => {
+    expect(() =>
+      clientConfigFromEnv(
+        {},
+        { env: { DEBROS_ENV: "qa", DEBROS_MAX_RETRIES: "many" } }
+      )
+    ).toThrow(
+      /DEBROS_ENV must be one of local, staging, production, got "qa"; DEBROS_MAX_RETRIES must be a number/
+    );
+    expect(() =>
+      createClientFromEnv({}, { env: { DEBROS_ENV: "staging" } })
+    ).toThrow(/DEBROS_GATEWAY_URL is required with the "staging" preset/);
+  });
+
+  it("should reject invalid values and conflicting options", () => {
+    let error: unknown;
+    try {
+      createClient({
+        baseURL: ["ftp://gw.example.com", "not a url"],
+        timeout: -1,
+        retryDelayMs: 100,
+        retryPolicy: new ExponentialBackoffRetryPolicy(),
+        fetch: globalThis.fetch,
+        connectionPool: { maxSockets: 4 },
+      });
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(ConfigurationError);
+    expect((error as ConfigurationError).issues).toEqual([
+      'baseURL[0] must use http or https, got "ftp://gw.example.com"',
+      'baseURL[1] must be an absolute URL, got "not a url"',
+      "timeout must be a positive number of ms, got -1",
+      "retryPolicy replaces maxRetries and retryDelayMs; configure retries in one place",
+      "connectionPool cannot be combined with a custom fetch; pass connectionPool.fetch as fetch instead",
+    ]);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { createClient, ConnectionPool } from "../../src/index";
+
+describe("ConnectionPool", () => {
+  let server: Server;
+  let baseURL: string;
+  let sockets = 0;
+
+  beforeAll(async () => {
+    server = createServer((_req, res) => {
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify({ status: "ok" }));
+    });
+    server.on("connection", () => sockets++);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("should reuse keep-alive sockets and report stats", async () => {
+    const pool = new ConnectionPool({ maxSockets: 2, keepAliveTimeoutMs: 5000 });
+    const client = createClient({ baseURL, connectionPool: pool, maxRetries: 0 });
+    sockets = 0;
+
+    for (let i = 0; i < 5; i++) {
+      expect(await client.network.health()).toBe(true);
+    }
+    await Promise.all(
+      Array.from({ length: 6 }, () => client.network.health())
+    );
+
+    expect(sockets).toBeLessThanOrEqual(2);
+    const stats = pool.getStats();
+    expect(Object.keys(stats.origins)).toEqual([baseURL]);
+    expect(stats.connected).toBeGreaterThan(0);
+    expect(stats.size).toBe(0);
+
+    await pool.close();
+    expect(pool.getStats().connected).toBe(0);
+    await expect(client.network.health()).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import {
+  AbortError,
+  ClientClosedError,
+  createClient,
+  NetworkError,
+  NotFoundError,
+  TimeoutError,
+  withDeadline,
+} from "../../src/index";
+import { MockTransport } from "../../src/testing";
+
+describe("Deadlines", () => {
+  it("should send the remaining budget to the gateway", async () => {
+    const gateway = new MockTransport();
+    const client = createClient(gateway.clientConfig());
+
+    await client.cache.get("users", "1", { deadline: 5000 });
+
+    const remaining = Number(
+      gateway.requests[0].headers["x-request-timeout-ms"]
+    );
+    expect(remaining).toBeGreaterThan(4000);
+    expect(remaining).toBeLessThanOrEqual(5000);
+  });
+
+  it("should bound retries and backoff by the deadline", async () => {
+    const client = createClient({
+      baseURL: "http://mock-gateway.local",
+      maxRetries: 5,
+      retryDelayMs: 100,
+      fetch: () => Promise.reject(new TypeError("fetch failed")),
+    });
+
+    const started = Date.now();
+    const error = await client.db
+      .query("SELECT 1", [], { deadline: 250 })
+      .catch((e) => e);
+
+    // Gives up with the last failure instead of waiting past the deadline
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(Date.now() - started).toBeLessThan(250);
+  });
+
+  it("should share one deadline between calls", async () => {
+    const gateway = new MockTransport({ latencyMs: 60 });
+    const client = createClient({ ...gateway.clientConfig(), maxRetries: 0 });
+    const options = withDeadline(100);
+
+    await client.cache.put("users", "1", { name: "Alice" }, undefined, options);
+    const error = await client.cache.get("users", "1", options).catch((e) => e);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.code).toBe("DEADLINE_EXCEEDED");
+    // Repeating the call cannot fit a budget already spent
+    expect(error.isRetryable).toBe(false);
+  });
+
+  it("should not report an exceeded deadline as a network error", async () => {
+    const gateway = new MockTransport({ latencyMs: 60 });
+    const reported: string[] = [];
+    const client = createClient({
+      ...gateway.clientConfig(),
+      maxRetries: 0,
+      onNetworkError: (error) => reported.push(error.code),
+    });
+
+    await expect(
+      client.cache.get("users", "1", { deadline: 20 })
+    ).rejects.toMatchObject({ code: "DEADLINE_EXCEEDED" });
+    await expect(
+      client.cache.get("users", "1", { timeout: 20 })
+    ).rejects.toBeInstanceOf(TimeoutError);
+
+    // Only the request timeout may point at a slow gateway
+    expect(reported).toEqual(["TIMEOUT"]);
+  });
+
+  it("should stop waiting for storage content at the deadline", async () => {
+    const gateway = new MockTransport();
+    const client = createClient(gateway.clientConfig());
+
+    const started = Date.now();
+    await expect(
+      client.storage.get("QmMissing", { deadline: 500 })
+    ).rejects.toBeInstanceOf(NotFoundError);
+    expect(Date.now() - started).toBeLessThan(500);
+  });
+
+  it("should stop waiting for storage content when cancelled or closed", async () => {
+    const gateway = new MockTransport();
+    const client = createClient(gateway.clientConfig());
+    const controller = new AbortController();
+
+    // Aborted during the 1s wait before the second attempt
+    let started = Date.now();
+    setTimeout(() => controller.abort(), 100);
+    await expect(
+      client.storage.get("QmMissing", { signal: controller.signal })
+    ).rejects.toBeInstanceOf(AbortError);
+    expect(Date.now() - started).toBeLessThan(500);
+
+    started = Date.now();
+    setTimeout(() => void client.close(), 100);
+    await expect(client.storage.get("QmMissing")).rejects.toBeInstanceOf(
+      ClientClosedError
+    );
+    expect(Date.now() - started).toBeLessThan(500);
+    expect(gateway.requests).toHaveLength(2);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  AbortError,
+  createClient,
+  HttpClient,
+  RequestDeduplicator,
+} from "../../src/index";
+import { MockTransport } from "../../src/testing";
+
+describe("Request deduplication", () => {
+  let gateway: MockTransport;
+  let dedupe: RequestDeduplicator;
+  let client: ReturnType<typeof createClient>;
+
+  const cacheGets = () =>
+    gateway.requests.filter((r) => r.path === "/v1/cache/get").length;
+
+  beforeEach(async () => {
+    gateway = new MockTransport({ latencyMs: 20 });
+    dedupe = new RequestDeduplicator();
+    client = createClient({ ...gateway.clientConfig(), dedupe, maxRetries: 0 });
+    await client.cache.put("users", "1", { name: "Alice" });
+  });
+
+  it("should coalesce identical concurrent reads", async () => {
+    const results = await Promise.all([
+      client.cache.get("users", "1"),
+      client.cache.get("users", "1"),
+      client.cache.get("users", "1"),
+      client.cache.get("users", "2"),
+      client.cache.get("users", "1", { dedupe: false }),
+    ]);
+
+    expect(results.map((r) => r?.value ?? null)).toEqual([
+      { name: "Alice" },
+      { name: "Alice" },
+      { name: "Alice" },
+      null,
+      { name: "Alice" },
+    ]);
+    expect(cacheGets()).toBe(3);
+    expect(dedupe.getStats()).toEqual({ coalesced: 2, inFlight: 0 });
+
+    // Sequential calls are not coalesced
+    await client.cache.get("users", "1");
+    expect(cacheGets()).toBe(4);
+  });
+
+  it("should give every coalesced caller its own result", async () => {
+    const withName = (value: unknown) => ({
+      name: String((value as any).name).toUpperCase(),
+    });
+    const [plain, validated, other] = await Promise.all([
+      client.cache.get("users", "1"),
+      client.cache.get("users", "1", { schema: withName }),
+      client.cache.get("users", "1"),
+    ]);
+
+    expect(cacheGets()).toBe(1);
+    expect(validated?.value).toEqual({ name: "ALICE" });
+    expect(plain?.value).toEqual({ name: "Alice" });
+    plain!.value.name = "Mallory";
+    expect(other?.value).toEqual({ name: "Alice" });
+  });
+
+  it("should only copy the result for callers that joined", async () => {
+    const original = { rows: [{ id: 1 }] };
+    const execute = async () => {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      return original;
+    };
+
+    expect(await dedupe.run("alone", undefined, execute)).toBe(original);
+
+    const controller = new AbortController();
+    const [first, joined, joinedWithSignal] = await Promise.all([
+      dedupe.run("shared", undefined, execute),
+      dedupe.run("shared", undefined, execute),
+      dedupe.run("shared", controller.signal, execute),
+    ]);
+    expect(first).toBe(original);
+    expect(joined).toEqual(original);
+    expect(joined).not.toBe(original);
+    expect(joinedWithSignal).toEqual(original);
+    expect(joinedWithSignal).not.toBe(joined);
+    expect(joinedWithSignal.rows).not.toBe(original.rows);
+  });
+
+  it("should not coalesce calls with different timeouts or retry options", async () => {
+    const http = new HttpClient({ ...gateway.clientConfig(), dedupe });
+    const get = (options: object) =>
+      http.post(
+        "/v1/cache/get",
+        { dmap: "users", key: "1" },
+        { idempotent: true, ...options }
+      );
+
+    await Promise.all([
+      get({}),
+      get({}),
+      get({ timeout: 5000 }),
+      get({ retry: false }),
+    ]);
+
+    expect(cacheGets()).toBe(3);
+  });
+
+  it("should only cancel the shared request when every caller aborts", async () => {
+    const first = new AbortController();
+    const second = new AbortController();
+    const kept = client.cache.get("users", "1", { signal: first.signal });
+    const cancelled = client.cache.get("users", "1", { signal: second.signal });
+    second.abort();
+
+    await expect(cancelled).rejects.toBeInstanceOf(AbortError);
+    expect((await kept)?.value).toEqual({ name: "Alice" });
+    expect(cacheGets()).toBe(1);
+  });
+});
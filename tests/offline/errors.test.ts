@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  AuthError,
+  ConflictError,
+  createClient,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  SDKError,
+  TimeoutError,
+  ValidationError,
+} from "../../src/index";
+import { MockTransport } from "../../src/testing";
+
+describe("Typed errors", () => {
+  let gateway: MockTransport;
+  let reply: { status: number; error: string } | "unreachable" | undefined;
+  let client: ReturnType<typeof createClient>;
+
+  beforeEach(() => {
+    gateway = new MockTransport();
+    reply = undefined;
+    client = createClient({
+      baseURL: "http://mock-gateway.local",
+      maxRetries: 0,
+      fetch: async (input, init) => {
+        if (reply === "unreachable") {
+          throw new TypeError("fetch failed");
+        }
+        if (reply) {
+          return new Response(JSON.stringify({ error: reply.error }), {
+            status: reply.status,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+        return gateway.fetch(input, init);
+      },
+    });
+  });
+
+  it("should map gateway statuses to error classes", async () => {
+    const cases: Array<[number, typeof SDKError]> = [
+      [400, ValidationError],
+      [401, AuthError],
+      [403, AuthError],
+      [404, NotFoundError],
+      [408, TimeoutError],
+      [409, ConflictError],
+      [422, ValidationError],
+      [429, RateLimitError],
+      [502, SDKError],
+    ];
+    for (const [status, errorClass] of cases) {
+      reply = { status, error: `status ${status}` };
+      const error = await client.network.status().catch((e) => e);
+      expect(error, String(status)).toBeInstanceOf(errorClass);
+      expect(error.httpStatus).toBe(status);
+    }
+  });
+
+  it("should only treat 500 \"not found\" as missing on cache and storage routes", async () => {
+    reply = { status: 500, error: "key not found" };
+    await expect(client.cache.get("users", "1")).resolves.toBeNull();
+
+    reply = { status: 500, error: "table not found" };
+    const error = await client.db.query("SELECT 1").catch((e) => e);
+    expect(error).not.toBeInstanceOf(NotFoundError);
+    expect(error).toBeInstanceOf(SDKError);
+    expect(error.isRetryable).toBe(true);
+  });
+
+  it("should report an unreachable gateway as NetworkError", async () => {
+    reply = "unreachable";
+
+    const error = await client.network.status().catch((e) => e);
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error.isRetryable).toBe(true);
+  });
+
+  it("should only treat a missing multiGet endpoint as empty results", async () => {
+    reply = { status: 404, error: "not found" };
+    const missing = await client.cache.multiGet("users", ["1", "2"]);
+    expect([...missing.entries()]).toEqual([
+      ["1", null],
+      ["2", null],
+    ]);
+
+    reply = { status: 429, error: "slow down" };
+    await expect(client.cache.multiGet("users", ["1"])).rejects.toBeInstanceOf(
+      RateLimitError
+    );
+    reply = "unreachable";
+    await expect(client.cache.multiGet("users", ["1"])).rejects.toBeInstanceOf(
+      NetworkError
+    );
+  });
+});
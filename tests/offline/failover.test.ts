@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  createClient,
+  GatewayPool,
+  HttpClient,
+  NetworkError,
+} from "../../src/index";
+import { MockTransport } from "../../src/testing";
+
+const GW1 = "http://gw1.local";
+const GW2 = "http://gw2.local";
+const GW3 = "http://gw3.local";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("Gateway failover", () => {
+  let gateway: MockTransport;
+  let failures: Map<string, number | "network">;
+  let sent: string[];
+  let sockets: string[];
+  let switches: string[];
+
+  const fetch: typeof globalThis.fetch = async (input, init) => {
+    const url = new URL(String(input));
+    sent.push(`${url.origin}${url.pathname}`);
+    const failure = failures.get(url.origin);
+    if (failure === "network") {
+      throw new TypeError("fetch failed");
+    }
+    if (failure) {
+      return new Response(JSON.stringify({ error: "gateway failure" }), {
+        status: failure,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    return gateway.fetch(input, init);
+  };
+
+  const createFailoverClient = () => {
+    const MockWebSocket = gateway.WebSocket;
+    return createClient({
+      ...gateway.clientConfig(),
+      baseURL: [GW1, GW2],
+      fetch,
+      maxRetries: 0,
+      failover: { onFailover: (from, to) => switches.push(`${from}->${to}`) },
+      wsConfig: {
+        WebSocket: class extends MockWebSocket {
+          constructor(url: string) {
+            super(url);
+            sockets.push(url);
+          }
+        } as any,
+      },
+    });
+  };
+
+  beforeEach(() => {
+    gateway = new MockTransport();
+    failures = new Map();
+    sent = [];
+    sockets = [];
+    switches = [];
+  });
+
+  it("should move to the next gateway on a 5xx", async () => {
+    const client = createFailoverClient();
+    failures.set(GW1, 502);
+
+    await expect(client.network.status()).resolves.toMatchObject({
+      connected: true,
+    });
+    expect(sent).toEqual([
+      `${GW1}/v1/network/status`,
+      `${GW2}/v1/network/status`,
+    ]);
+    expect(switches).toEqual([`${GW1}->${GW2}`]);
+  });
+
+  it("should move to the next gateway on a network error", async () => {
+    const client = createFailoverClient();
+    failures.set(GW1, "network");
+
+    await client.cache.put("users", "1", { name: "Alice" });
+
+    expect(sent).toEqual([`${GW1}/v1/cache/put`, `${GW2}/v1/cache/put`]);
+    expect(switches).toEqual([`${GW1}->${GW2}`]);
+    await expect(client.cache.get("users", "1")).resolves.toMatchObject({
+      value: { name: "Alice" },
+    });
+  });
+
+  it("should not resend a mutation without an idempotency key", async () => {
+    const exec = (options = {}) =>
+      new HttpClient({ baseURL: [GW1, GW2], fetch, maxRetries: 0 }).post(
+        "/v1/rqlite/exec",
+        { sql: "CREATE TABLE IF NOT EXISTS t (id INTEGER)" },
+        options
+      );
+
+    // GW1 may have applied the write
+    failures.set(GW1, 502);
+    await expect(exec()).rejects.toMatchObject({ httpStatus: 502 });
+    expect(sent).toEqual([`${GW1}/v1/rqlite/exec`]);
+
+    // With a key the gateway drops duplicates, so the write moves on
+    sent = [];
+    await expect(exec({ idempotencyKey: true })).resolves.toBeDefined();
+    expect(sent).toEqual([`${GW1}/v1/rqlite/exec`, `${GW2}/v1/rqlite/exec`]);
+
+    // Nor after a network error, which may have hit the gateway
+    failures.set(GW1, "network");
+    sent = [];
+    await expect(exec()).rejects.toBeInstanceOf(NetworkError);
+    expect(sent).toEqual([`${GW1}/v1/rqlite/exec`]);
+  });
+
+  it("should stay on the chosen gateway after it recovers", async () => {
+    const client = createFailoverClient();
+    failures.set(GW1, 503);
+    await client.network.status();
+
+    failures.delete(GW1);
+    sent = [];
+    await client.network.status();
+    await client.cache.get("users", "1");
+
+    expect(sent).toEqual([`${GW2}/v1/network/status`, `${GW2}/v1/cache/get`]);
+    expect(switches).toEqual([`${GW1}->${GW2}`]);
+  });
+
+  it("should retry gateways in order once their cooldown expires", async () => {
+    const pool = new GatewayPool([GW1, GW2, GW3], async () => true, {
+      cooldownMs: 50,
+    });
+
+    // Not active: only marked as failed
+    pool.reportFailure(GW2);
+    expect(pool.getActive()).toBe(GW1);
+    await sleep(5);
+    pool.reportFailure(GW1);
+    expect(pool.getActive()).toBe(GW3);
+    await sleep(5);
+    pool.reportFailure(GW3);
+    // Every gateway is cooling down: the least recently failed one is used
+    expect(pool.getActive()).toBe(GW2);
+
+    await sleep(60);
+    pool.reportFailure(GW2);
+    // Cooldowns expired: the next one in order, not the least recently failed
+    expect(pool.getActive()).toBe(GW3);
+  });
+
+  it("should open pub/sub WebSockets on the active gateway", async () => {
+    const client = createFailoverClient();
+    const first = await client.pubsub.subscribe("chat");
+
+    failures.set(GW1, 502);
+    await client.network.status();
+    const second = await client.pubsub.subscribe("news");
+
+    expect(sockets.map((url) => new URL(url).origin)).toEqual([
+      "ws://gw1.local",
+      "ws://gw2.local",
+    ]);
+    first.close();
+    second.close();
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  createClient,
+  HealthMonitor,
+  MemoryStorage,
+  OfflineQueue,
+  OfflineQueuedError,
+  ServiceHealthChange,
+} from "../../src/index";
+import { MockTransport } from "../../src/testing";
+
+describe("HealthMonitor", () => {
+  let gateway: MockTransport;
+  let cacheDown: boolean;
+  let changes: ServiceHealthChange[];
+  let monitor: HealthMonitor;
+  let client: ReturnType<typeof createClient>;
+
+  const cacheRequests = () =>
+    gateway.requests.filter((r) => r.path.startsWith("/v1/cache/")).length;
+
+  beforeEach(() => {
+    gateway = new MockTransport();
+    cacheDown = false;
+    changes = [];
+    monitor = new HealthMonitor({
+      gateRequests: true,
+      onChange: (change) => changes.push(change),
+    });
+    const config = gateway.clientConfig();
+    client = createClient({
+      ...config,
+      healthMonitor: monitor,
+      maxRetries: 0,
+      fetch: (input, init) =>
+        cacheDown && String(input).includes("/v1/cache/")
+          ? Promise.reject(new TypeError("fetch failed"))
+          : config.fetch(input, init),
+    });
+  });
+
+  afterEach(() => client.close());
+
+  it("should track service health and latency", async () => {
+    const status = await monitor.check();
+
+    expect(status.map((s) => [s.service, s.status])).toEqual([
+      ["gateway", "up"],
+      ["cache", "up"],
+      ["network", "up"],
+    ]);
+    expect(status.every((s) => typeof s.latencyMs === "number")).toBe(true);
+    expect(changes.map((c) => `${c.service}:${c.from}->${c.to}`)).toEqual([
+      "gateway:unknown->up",
+      "cache:unknown->up",
+      "network:unknown->up",
+    ]);
+  });
+
+  it("should fail fast while a service is down and recover", async () => {
+    await monitor.check();
+    cacheDown = true;
+    await monitor.check();
+
+    expect(monitor.isDegraded()).toBe(true);
+    expect(changes[changes.length - 1]).toMatchObject({
+      service: "cache",
+      from: "up",
+      to: "down",
+      health: { consecutiveFailures: 1, error: "fetch failed" },
+    });
+
+    const sent = cacheRequests();
+    await expect(client.cache.get("users", "1")).rejects.toMatchObject({
+      code: "SERVICE_UNAVAILABLE",
+      httpStatus: 503,
+    });
+    expect(cacheRequests()).toBe(sent);
+    // Other services are not gated
+    await expect(client.network.status()).resolves.toMatchObject({
+      connected: true,
+    });
+
+    cacheDown = false;
+    await monitor.check();
+    expect(monitor.isDegraded()).toBe(false);
+    await expect(client.cache.get("users", "1")).resolves.toBeNull();
+  });
+
+  it("should keep probing until every client sharing it is closed", async () => {
+    const shared = new HealthMonitor({ intervalMs: 20 });
+    const first = createClient({
+      ...gateway.clientConfig(),
+      healthMonitor: shared,
+    });
+    const second = createClient({
+      ...gateway.clientConfig(),
+      healthMonitor: shared,
+    });
+    const probes = () =>
+      gateway.requests.filter((r) => r.path === "/v1/health").length;
+    await shared.check();
+
+    await second.close();
+    // Probes go through the client still open
+    expect((await shared.check()).map((s) => s.status)).toEqual([
+      "up",
+      "up",
+      "up",
+    ]);
+    const sent = probes();
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    expect(probes()).toBeGreaterThan(sent);
+
+    await first.close();
+    const stopped = probes();
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    expect(probes()).toBe(stopped);
+  });
+
+  it("should leave the status unchanged when closing cancels a probe", async () => {
+    const slow = new HealthMonitor({
+      gateRequests: true,
+      onChange: (change) => changes.push(change),
+    });
+    const config = gateway.clientConfig();
+    const closing = createClient({
+      ...config,
+      healthMonitor: slow,
+      fetch: async (input, init) => {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        return config.fetch(input, init);
+      },
+    });
+    await slow.check();
+    changes = [];
+
+    const pending = slow.check();
+    await closing.close();
+    const status = await pending;
+
+    expect(status.map((s) => s.status)).toEqual(["up", "up", "up"]);
+    expect(changes).toEqual([]);
+  });
+
+  it("should not gate the offline queue's replay probe", async () => {
+    let gatewayDown = false;
+    const queue = new OfflineQueue({
+      storage: new MemoryStorage(),
+      healthCheckIntervalMs: 60000,
+    });
+    const gated = new HealthMonitor({ gateRequests: true });
+    const config = gateway.clientConfig();
+    const offline = createClient({
+      ...config,
+      healthMonitor: gated,
+      offlineQueue: queue,
+      maxRetries: 0,
+      fetch: (input, init) =>
+        gatewayDown
+          ? Promise.reject(new TypeError("fetch failed"))
+          : config.fetch(input, init),
+    });
+
+    try {
+      gatewayDown = true;
+      await gated.check();
+      await expect(
+        offline.cache.put("users", "1", { name: "Alice" })
+      ).rejects.toBeInstanceOf(OfflineQueuedError);
+
+      // Back up, but the monitor still reports it down until its next check
+      gatewayDown = false;
+      expect(gated.isDegraded()).toBe(true);
+      await queue.flush();
+
+      expect(await queue.hasPending()).toBe(false);
+      await expect(offline.cache.get("users", "1")).resolves.toMatchObject({
+        value: { name: "Alice" },
+      });
+    } finally {
+      await offline.close();
+    }
+  });
+});
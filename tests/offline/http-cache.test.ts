@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  createClient,
+  HttpCache,
+  MemoryStorage,
+  StorageHttpCacheStore,
+} from "../../src/index";
+
+describe("HTTP cache", () => {
+  let requests: { path: string; ifNoneMatch: string | null }[];
+  let version: number;
+
+  // Status revalidates via ETag on every use; topics stay fresh for a minute
+  const fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = new URL(String(input));
+    const ifNoneMatch = new Headers(init?.headers).get("if-none-match");
+    requests.push({ path: url.pathname, ifNoneMatch });
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (url.pathname === "/v1/network/status") {
+      const etag = `"v${version}"`;
+      headers["ETag"] = etag;
+      headers["Cache-Control"] = "no-cache";
+      if (ifNoneMatch === etag) {
+        return new Response(null, { status: 304, headers });
+      }
+      return new Response(JSON.stringify({ peer_count: version }), { headers });
+    }
+    headers["Cache-Control"] = "max-age=60";
+    return new Response(JSON.stringify({ topics: [`t${version}`] }), {
+      headers,
+    });
+  };
+
+  beforeEach(() => {
+    requests = [];
+    version = 1;
+  });
+
+  it("should revalidate with ETags and serve fresh responses from cache", async () => {
+    const client = createClient({
+      baseURL: "http://gateway.local",
+      httpCache: {},
+      fetch,
+    });
+
+    expect(await client.network.status()).toEqual({ peer_count: 1 });
+    expect(await client.network.status()).toEqual({ peer_count: 1 });
+    version = 2;
+    expect(await client.network.status()).toEqual({ peer_count: 2 });
+    expect(requests.map((r) => r.ifNoneMatch)).toEqual([null, '"v1"', '"v1"']);
+
+    requests = [];
+    expect(await client.pubsub.topics()).toEqual(["t2"]);
+    version = 3;
+    expect(await client.pubsub.topics()).toEqual(["t2"]);
+    expect(requests).toHaveLength(1);
+
+    // Bypassing the cache neither reads nor stores
+    expect(await client.pubsub.topics({ httpCache: false })).toEqual(["t3"]);
+    expect(await client.pubsub.topics()).toEqual(["t2"]);
+    expect(requests).toHaveLength(2);
+  });
+
+  it("should persist entries through a StorageAdapter", async () => {
+    const storage = new MemoryStorage();
+    await storage.set("apiKey", "ak_test:default");
+    const create = () =>
+      createClient({
+        baseURL: "http://gateway.local",
+        httpCache: new HttpCache({ store: new StorageHttpCacheStore(storage) }),
+        fetch,
+      });
+
+    await create().network.status();
+    expect(await create().network.status()).toEqual({ peer_count: 1 });
+    expect(requests.map((r) => r.ifNoneMatch)).toEqual([null, '"v1"']);
+
+    await new HttpCache({ store: new StorageHttpCacheStore(storage) }).clear();
+    await create().network.status();
+    expect(requests[2].ifNoneMatch).toBeNull();
+    expect(await storage.get("apiKey")).toBe("ak_test:default");
+  });
+
+  it("should keep credentials apart with a SHA-256 namespace", async () => {
+    const key = (credentials: string) =>
+      HttpCache.key("/v1/network/status", undefined, credentials);
+    const alice = await key("ak_alice|");
+    const bob = await key("ak_bob|");
+
+    expect(alice).toMatch(/^[0-9a-f]{64}:\/v1\/network\/status$/);
+    expect(bob).not.toBe(alice);
+    expect(alice).not.toContain("alice");
+    expect(await HttpCache.key("/v1/pubsub/topics", { a: 1 }, "")).toMatch(
+      /:\/v1\/pubsub\/topics\?a=1$/
+    );
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { ClientClosedError, createClient } from "../../src/index";
+import { MockTransport } from "../../src/testing";
+
+describe("Client lifecycle", () => {
+  let gateway: MockTransport;
+  let client: ReturnType<typeof createClient>;
+
+  beforeEach(() => {
+    gateway = new MockTransport({ latencyMs: 50 });
+    client = createClient({ ...gateway.clientConfig(), maxRetries: 0 });
+  });
+
+  it("should abort requests in flight and reject later calls", async () => {
+    const pending = client.cache.get("users", "1");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    await client.close();
+
+    await expect(pending).rejects.toBeInstanceOf(ClientClosedError);
+    await expect(client.cache.put("users", "1", {})).rejects.toMatchObject({
+      code: "CLIENT_CLOSED",
+    });
+    await expect(client.pubsub.subscribe("chat")).rejects.toBeInstanceOf(
+      ClientClosedError
+    );
+    // Closing twice is a no-op
+    await client.close();
+  });
+
+  it("should close open subscriptions", async () => {
+    const subscription = await client.pubsub.subscribe("chat");
+    expect(subscription.isConnected()).toBe(true);
+
+    await client[Symbol.asyncDispose]();
+
+    expect(subscription.isConnected()).toBe(false);
+  });
+});
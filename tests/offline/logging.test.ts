@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { createClient, LogFields, Logger } from "../../src/index";
+import { redactHeaders, redactUrl } from "../../src/core";
+import { MockTransport } from "../../src/testing";
+
+const API_KEY = "ak_secret-key:default";
+const JWT = "eyJhbGciOiJIUzI1NiJ9.secret-jwt.signature";
+
+describe("Log redaction", () => {
+  let entries: Array<{ level: string; message: string; fields?: LogFields }>;
+  let logger: Logger;
+
+  beforeEach(() => {
+    entries = [];
+    const capture =
+      (level: string) => (message: string, fields?: LogFields) =>
+        entries.push({ level, message, fields });
+    logger = {
+      debug: capture("debug"),
+      info: capture("info"),
+      warn: capture("warn"),
+      error: capture("error"),
+    };
+  });
+
+  it("should redact credential headers and query parameters", () => {
+    expect(
+      redactHeaders({
+        Authorization: `Bearer ${JWT}`,
+        "X-API-Key": API_KEY,
+        cookie: "session=1",
+        "Content-Type": "application/json",
+      })
+    ).toEqual({
+      Authorization: "[REDACTED]",
+      "X-API-Key": "[REDACTED]",
+      cookie: "[REDACTED]",
+      "Content-Type": "application/json",
+    });
+
+    const url = redactUrl(
+      `ws://gw.local/v1/pubsub/ws?topic=chat&api_key=${API_KEY}&token=${JWT}`
+    );
+    expect(url).toContain("topic=chat");
+    expect(url).not.toContain("secret");
+  });
+
+  it("should never log credentials, SQL args or criteria values", async () => {
+    const gateway = new MockTransport();
+    const client = createClient({
+      ...gateway.clientConfig(),
+      apiKey: API_KEY,
+      jwt: JWT,
+      logger,
+      debug: true,
+      maxRetries: 0,
+    });
+
+    await client.db.createTable(
+      "CREATE TABLE users (id INTEGER PRIMARY KEY, email TEXT)"
+    );
+    await client.db.exec("INSERT INTO users (email) VALUES (?)", [
+      "alice@example.com",
+    ]);
+    await client.db.find("users", { email: "alice@example.com" });
+    await client.db
+      .query("SELECT * FROM missing WHERE email = ?", ["alice@example.com"])
+      .catch(() => undefined);
+    const subscription = await client.pubsub.subscribe("chat");
+    subscription.close();
+
+    const logged = JSON.stringify(entries);
+    expect(entries.map((e) => e.level)).toContain("error");
+    expect(logged).toContain("INSERT INTO users");
+    expect(logged).toContain("/v1/pubsub/ws");
+    for (const secret of [API_KEY, JWT, "alice@example.com"]) {
+      expect(logged).not.toContain(secret);
+    }
+  });
+});
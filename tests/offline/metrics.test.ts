@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  createClient,
+  ExponentialBackoffRetryPolicy,
+  formatPrometheus,
+  MetricsCollector,
+} from "../../src/index";
+import { MockTransport } from "../../src/testing";
+
+describe("Metrics", () => {
+  let gateway: MockTransport;
+  let metrics: MetricsCollector;
+  let failures: Map<string, number>;
+  let bytesSent: number;
+  let bytesReceived: number;
+  let client: ReturnType<typeof createClient>;
+
+  beforeEach(() => {
+    gateway = new MockTransport();
+    metrics = new MetricsCollector();
+    failures = new Map();
+    bytesSent = 0;
+    bytesReceived = 0;
+    const config = gateway.clientConfig();
+    client = createClient({
+      ...config,
+      metrics,
+      retryPolicy: new ExponentialBackoffRetryPolicy(2, 1),
+      fetch: async (input, init) => {
+        const path = new URL(String(input)).pathname;
+        bytesSent += typeof init?.body === "string" ? init.body.length : 0;
+        const status = failures.get(path);
+        if (status) {
+          failures.delete(path);
+          return new Response(JSON.stringify({ error: "unavailable" }), {
+            status,
+          });
+        }
+        const response = await config.fetch(input, init);
+        if (response.ok) {
+          bytesReceived += (await response.clone().text()).length;
+        }
+        return response;
+      },
+    });
+  });
+
+  it("should count requests, retries and bytes per service and route", async () => {
+    failures.set("/v1/cache/put", 503);
+    await client.cache.put("users", "1", { name: "Alice" });
+    await client.functions.invoke("missing", {}).catch(() => undefined);
+
+    const snapshot = metrics.snapshot();
+    const put = { service: "cache", route: "/v1/cache/put", method: "POST" };
+    const invoke = {
+      service: "functions",
+      route: "/v1/invoke",
+      method: "POST",
+    };
+    expect(snapshot.requests).toEqual([
+      { labels: { ...put, status: "200" }, value: 1 },
+      { labels: { ...invoke, status: "404" }, value: 1 },
+    ]);
+    expect(snapshot.requestErrors).toEqual([{ labels: invoke, value: 1 }]);
+    expect(snapshot.retries).toEqual([{ labels: put, value: 1 }]);
+    expect(snapshot.requestDuration.map((s) => [s.labels, s.count])).toEqual([
+      [put, 1],
+      [invoke, 1],
+    ]);
+
+    // Every attempt counts as sent; error bodies are not counted as received
+    const total = (direction: string) =>
+      snapshot.requestBytes
+        .filter((s) => s.labels.direction === direction)
+        .reduce((sum, s) => sum + s.value, 0);
+    expect(total("sent")).toBe(bytesSent);
+    expect(total("received")).toBe(bytesReceived);
+    expect(
+      snapshot.requestBytes.find(
+        (s) => s.labels.route === put.route && s.labels.direction === "received"
+      )?.value
+    ).toBe(bytesReceived);
+  });
+
+  it("should record WebSocket and storage transfers", async () => {
+    const subscription = await client.pubsub.subscribe("chat", {
+      onMessage: () => undefined,
+    });
+    await client.pubsub.publish("chat", "hello");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    subscription.close();
+
+    const { cid } = await client.storage.upload(
+      new TextEncoder().encode("hello world"),
+      "hello.txt"
+    );
+    // Not pinned yet on the first attempt: retried after a 1s backoff
+    failures.set(`/v1/storage/get/${cid}`, 404);
+    const stream = await client.storage.get(cid);
+    expect(await new Response(stream).text()).toBe("hello world");
+
+    const snapshot = metrics.snapshot();
+    expect(snapshot.webSocketEvents).toEqual([
+      { labels: { service: "pubsub", event: "connect" }, value: 1 },
+      { labels: { service: "pubsub", event: "message_in" }, value: 1 },
+      { labels: { service: "pubsub", event: "close" }, value: 1 },
+    ]);
+    expect(snapshot.webSocketBytes).toEqual([
+      {
+        labels: { service: "pubsub", direction: "received" },
+        value: expect.any(Number),
+      },
+    ]);
+    expect(snapshot.webSocketBytes[0].value).toBeGreaterThan(0);
+    expect(snapshot.transferBytes).toEqual([
+      { labels: { service: "storage", direction: "upload" }, value: 11 },
+      { labels: { service: "storage", direction: "download" }, value: 11 },
+    ]);
+    expect(snapshot.retries).toEqual([
+      {
+        labels: { service: "storage", route: "/v1/storage/get", method: "GET" },
+        value: 1,
+      },
+    ]);
+  });
+
+  it("should render the Prometheus text format", () => {
+    const collector = new MetricsCollector({ durationBuckets: [0.1, 1] });
+    collector.recordRequest({
+      service: "rqlite",
+      route: "/v1/rqlite/query",
+      method: "POST",
+      status: 500,
+      durationMs: 250,
+      error: true,
+      bytesSent: 20,
+      bytesReceived: 0,
+    });
+    collector.recordWebSocket({
+      service: 'pub"sub',
+      event: "message_out",
+      bytes: 5,
+    });
+
+    expect(formatPrometheus(collector.snapshot(), "app")).toBe(
+      [
+        "# HELP app_requests_total Gateway requests by service, route, method and final status.",
+        "# TYPE app_requests_total counter",
+        'app_requests_total{service="rqlite",route="/v1/rqlite/query",method="POST",status="500"} 1',
+        "# HELP app_request_errors_total Gateway requests that failed after all retries.",
+        "# TYPE app_request_errors_total counter",
+        'app_request_errors_total{service="rqlite",route="/v1/rqlite/query",method="POST"} 1',
+        "# HELP app_request_duration_seconds Gateway request latency including retries.",
+        "# TYPE app_request_duration_seconds histogram",
+        'app_request_duration_seconds_bucket{service="rqlite",route="/v1/rqlite/query",method="POST",le="0.1"} 0',
+        'app_request_duration_seconds_bucket{service="rqlite",route="/v1/rqlite/query",method="POST",le="1"} 1',
+        'app_request_duration_seconds_bucket{service="rqlite",route="/v1/rqlite/query",method="POST",le="+Inf"} 1',
+        'app_request_duration_seconds_sum{service="rqlite",route="/v1/rqlite/query",method="POST"} 0.25',
+        'app_request_duration_seconds_count{service="rqlite",route="/v1/rqlite/query",method="POST"} 1',
+        "# HELP app_request_retries_total Gateway request retries.",
+        "# TYPE app_request_retries_total counter",
+        "# HELP app_request_bytes_total Gateway request and response body bytes.",
+        "# TYPE app_request_bytes_total counter",
+        'app_request_bytes_total{service="rqlite",route="/v1/rqlite/query",direction="sent"} 20',
+        "# HELP app_websocket_events_total WebSocket connection and message events.",
+        "# TYPE app_websocket_events_total counter",
+        'app_websocket_events_total{service="pub\\"sub",event="message_out"} 1',
+        "# HELP app_websocket_bytes_total WebSocket message bytes.",
+        "# TYPE app_websocket_bytes_total counter",
+        'app_websocket_bytes_total{service="pub\\"sub",direction="sent"} 5',
+        "# HELP app_transfer_bytes_total Content bytes uploaded to and downloaded from storage.",
+        "# TYPE app_transfer_bytes_total counter",
+        "",
+      ].join("\n")
+    );
+    expect(collector.toPrometheus()).toContain(
+      "# TYPE debros_requests_total counter"
+    );
+  });
+});
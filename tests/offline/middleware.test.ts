@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  createClient,
+  ExponentialBackoffRetryPolicy,
+  HttpClient,
+  PubSubClient,
+} from "../../src/index";
+import type { HttpMiddleware } from "../../src/index";
+import { MockTransport } from "../../src/testing";
+
+describe("Middleware", () => {
+  let gateway: MockTransport;
+
+  beforeEach(() => {
+    gateway = new MockTransport();
+  });
+
+  it("should run middleware in registration order", async () => {
+    const calls: string[] = [];
+    const outer: HttpMiddleware = async (req, next) => {
+      calls.push(`outer:${req.path}`);
+      const res = await next(req);
+      calls.push(`outer:${res.status}`);
+      return res;
+    };
+    const inner: HttpMiddleware = async (req, next) => {
+      calls.push(`inner:${req.path}`);
+      return next(req);
+    };
+
+    const client = createClient({
+      ...gateway.clientConfig(),
+      middleware: [outer, inner],
+    });
+    const healthy = await client.network.health();
+
+    expect(healthy).toBe(true);
+    expect(calls).toEqual([
+      "outer:/v1/health",
+      "inner:/v1/health",
+      "outer:200",
+    ]);
+  });
+
+  it("should see the same idempotency key on every attempt", async () => {
+    const keys: string[] = [];
+    const capture: HttpMiddleware = async (req, next) => {
+      keys.push(req.headers["Idempotency-Key"]);
+      return next(req);
+    };
+    let unavailable = 0;
+    const config = gateway.clientConfig();
+    const client = createClient({
+      ...config,
+      middleware: [capture],
+      retryPolicy: new ExponentialBackoffRetryPolicy(2, 1),
+      // Every mutation fails once with 503 and is retried
+      fetch: async (input, init) => {
+        if (init?.method === "POST" && unavailable++ % 2 === 0) {
+          return new Response(JSON.stringify({ error: "unavailable" }), {
+            status: 503,
+          });
+        }
+        return config.fetch(input, init);
+      },
+    });
+
+    await client.pubsub.publish("idempotency-test", "hello", {
+      idempotencyKey: "publish-1",
+    });
+    expect(keys).toEqual(["publish-1", "publish-1"]);
+
+    // Generated keys (db.exec passes idempotencyKey: true) are reused too
+    keys.length = 0;
+    await client.db.exec("CREATE TABLE IF NOT EXISTS t (id INTEGER)");
+    expect(keys).toHaveLength(2);
+    expect(keys[0]).toMatch(/\S{16,}/);
+    expect(keys[1]).toBe(keys[0]);
+    expect(gateway.requests.at(-1)?.headers["idempotency-key"]).toBe(keys[0]);
+
+    keys.length = 0;
+    await client.network.health();
+    expect(keys).toEqual([undefined]);
+  });
+
+  it("should let middleware rewrite responses", async () => {
+    const httpClient = new HttpClient({
+      baseURL: "http://mock-gateway.local",
+      fetch: gateway.fetch,
+    });
+    httpClient.use(async (req, next) => {
+      if (req.path === "/v1/pubsub/topics") {
+        return new Response(JSON.stringify({ topics: ["rewritten"] }), {
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+      return next(req);
+    });
+
+    const pubsub = new PubSubClient(httpClient);
+    const topics = await pubsub.topics();
+    expect(topics).toEqual(["rewritten"]);
+    expect(gateway.requests).toHaveLength(0);
+  });
+});
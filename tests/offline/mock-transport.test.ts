@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { createClient, NotFoundError, PubSubMessage } from "../../src/index";
+import { MockTransport } from "../../src/testing";
+
+describe("MockTransport", () => {
+  let gateway: MockTransport;
+  let client: ReturnType<typeof createClient>;
+
+  beforeEach(() => {
+    gateway = new MockTransport();
+    client = createClient({
+      ...gateway.clientConfig(),
+      apiKey: "ak_test:default",
+      maxRetries: 0,
+    });
+  });
+
+  it("should run database operations against sql.js", async () => {
+    await client.db.createTable(
+      "CREATE TABLE users (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT, age INTEGER)"
+    );
+    const inserted = await client.db.exec(
+      "INSERT INTO users (name, age) VALUES (?, ?)",
+      ["Alice", 30]
+    );
+    expect(inserted).toEqual({ rows_affected: 1, last_insert_id: 1 });
+
+    const repo = client.db.repository<{ id?: number; name: string; age: number }>(
+      "users"
+    );
+    await repo.save({ name: "Bob", age: 25 });
+
+    const rows = await client.db.query("SELECT name FROM users ORDER BY age");
+    expect(rows).toEqual([{ name: "Bob" }, { name: "Alice" }]);
+
+    const adults = await client.db
+      .createQueryBuilder("users")
+      .where("age > ?", [26])
+      .getMany();
+    expect(adults.map((u) => u.name)).toEqual(["Alice"]);
+    expect(await repo.findOne({ name: "Carol" })).toBeNull();
+
+    const results = await client.db.transaction([
+      { kind: "exec", sql: "UPDATE users SET age = age + 1" },
+      { kind: "query", sql: "SELECT SUM(age) AS total FROM users" },
+    ]);
+    expect(results[1].items).toEqual([{ total: 57 }]);
+  });
+
+  it("should emulate the cache", async () => {
+    await client.cache.put("users", "1", { name: "Alice" });
+    await client.cache.put("users", "2", { name: "Bob" }, "1ms");
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    expect((await client.cache.get("users", "1"))?.value).toEqual({
+      name: "Alice",
+    });
+    expect(await client.cache.get("users", "2")).toBeNull();
+    expect((await client.cache.scan("users")).keys).toEqual(["1"]);
+  });
+
+  it("should deliver published messages over the fake WebSocket", async () => {
+    const received: PubSubMessage[] = [];
+    const subscription = await client.pubsub.subscribe("chat", {
+      onMessage: (message) => received.push(message),
+    });
+
+    await client.pubsub.publish("chat", "hello");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(received.map((m) => m.data)).toEqual(["hello"]);
+    expect(await client.pubsub.topics()).toEqual(["chat"]);
+    subscription.close();
+  });
+
+  it("should store content and invoke registered functions", async () => {
+    const upload = await client.storage.upload(
+      new TextEncoder().encode("content"),
+      "file.txt"
+    );
+    expect((await client.storage.status(upload.cid)).status).toBe("pinned");
+    const response = await client.storage.getBinary(upload.cid);
+    expect(await response.text()).toBe("content");
+
+    gateway.registerFunction("echo", (input) => ({ echoed: input }));
+    expect(await client.functions.invoke("echo", { a: 1 })).toEqual({
+      echoed: { a: 1 },
+    });
+    await expect(client.functions.invoke("missing", {})).rejects.toBeInstanceOf(
+      NotFoundError
+    );
+    expect(gateway.requests.at(-1)?.headers["x-api-key"]).toBe(
+      "ak_test:default"
+    );
+  });
+});
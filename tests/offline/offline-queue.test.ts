@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  createClient,
+  MemoryStorage,
+  OfflineQueue,
+  OfflineQueuedError,
+  QueuedMutation,
+} from "../../src/index";
+import { MockTransport } from "../../src/testing";
+
+describe("OfflineQueue", () => {
+  let gateway: MockTransport;
+  let online: boolean;
+  let storage: MemoryStorage;
+
+  const createOfflineClient = (queue: OfflineQueue) => {
+    const config = gateway.clientConfig();
+    return createClient({
+      ...config,
+      storage,
+      offlineQueue: queue,
+      maxRetries: 0,
+      fetch: (input, init) =>
+        online
+          ? config.fetch(input, init)
+          : Promise.reject(new TypeError("fetch failed")),
+    });
+  };
+
+  beforeEach(() => {
+    gateway = new MockTransport();
+    online = true;
+    storage = new MemoryStorage();
+  });
+
+  it("should queue failed mutations and replay them in order", async () => {
+    const replayed: QueuedMutation[] = [];
+    const failed: QueuedMutation[] = [];
+    const queue = new OfflineQueue({
+      storage,
+      healthCheckIntervalMs: 60000,
+      onReplayed: (mutation) => replayed.push(mutation),
+      onFailed: (mutation) => failed.push(mutation),
+    });
+    const client = createOfflineClient(queue);
+    await client.db.createTable("CREATE TABLE notes (body TEXT)");
+
+    online = false;
+    await expect(
+      client.db.exec("INSERT INTO notes (body) VALUES (?)", ["first"])
+    ).rejects.toBeInstanceOf(OfflineQueuedError);
+    await expect(
+      client.db.exec("INSERT INTO missing VALUES (1)")
+    ).rejects.toBeInstanceOf(OfflineQueuedError);
+    await expect(
+      client.cache.put("notes", "latest", "first")
+    ).rejects.toBeInstanceOf(OfflineQueuedError);
+    // Reads fail as usual
+    await expect(
+      client.db.query("SELECT * FROM notes")
+    ).rejects.not.toBeInstanceOf(OfflineQueuedError);
+
+    online = true;
+    // Queued behind the earlier mutations so writes keep their order
+    await expect(
+      client.db.exec("INSERT INTO notes (body) VALUES (?)", ["second"])
+    ).rejects.toBeInstanceOf(OfflineQueuedError);
+    const pending = await queue.getPending();
+    expect(pending.map((m) => m.path)).toEqual([
+      "/v1/rqlite/exec",
+      "/v1/rqlite/exec",
+      "/v1/cache/put",
+      "/v1/rqlite/exec",
+    ]);
+
+    await queue.flush();
+
+    expect(await queue.getPending()).toEqual([]);
+    expect(replayed).toHaveLength(3);
+    expect(failed.map((m) => m.body)).toEqual([
+      { sql: "INSERT INTO missing VALUES (1)", args: [] },
+    ]);
+    expect(await client.db.query("SELECT body FROM notes")).toEqual([
+      { body: "first" },
+      { body: "second" },
+    ]);
+    expect((await client.cache.get("notes", "latest"))?.value).toBe("first");
+    // Replays reuse the idempotency key generated for the original call
+    const execKeys = gateway.requests
+      .filter((r) => r.path === "/v1/rqlite/exec")
+      .map((r) => r.headers["idempotency-key"]);
+    expect(execKeys).toEqual(
+      pending.filter((m) => m.path === "/v1/rqlite/exec").map((m) => m.id)
+    );
+  });
+
+  it("should persist the queue and replay it when the gateway recovers", async () => {
+    online = false;
+    const first = createOfflineClient(new OfflineQueue({ storage }));
+    await expect(first.pubsub.publish("chat", "hello")).rejects.toBeInstanceOf(
+      OfflineQueuedError
+    );
+    expect(JSON.parse((await storage.get("offlineQueue"))!)).toHaveLength(1);
+
+    // A later session picks the queue up from storage
+    online = true;
+    const replayed = new Promise<QueuedMutation>((resolve) => {
+      createOfflineClient(
+        new OfflineQueue({
+          storage,
+          healthCheckIntervalMs: 5,
+          onReplayed: (mutation) => resolve(mutation),
+        })
+      );
+    });
+
+    expect((await replayed).path).toBe("/v1/pubsub/publish");
+    expect(JSON.parse((await storage.get("offlineQueue"))!)).toEqual([]);
+  });
+
+  it("should keep queued mutations when the client closes mid-replay", async () => {
+    const failed: QueuedMutation[] = [];
+    const queue = new OfflineQueue({
+      storage,
+      healthCheckIntervalMs: 60000,
+      onFailed: (mutation) => failed.push(mutation),
+    });
+    const config = gateway.clientConfig();
+    const client = createClient({
+      ...config,
+      offlineQueue: queue,
+      maxRetries: 0,
+      fetch: (input, init) => {
+        if (!online) {
+          return Promise.reject(new TypeError("fetch failed"));
+        }
+        if (String(input).includes("/v1/cache/put")) {
+          // Closed while the first replay is in flight
+          void client.close();
+        }
+        return config.fetch(input, init);
+      },
+    });
+
+    online = false;
+    for (const key of ["1", "2"]) {
+      await expect(
+        client.cache.put("notes", key, "draft")
+      ).rejects.toBeInstanceOf(OfflineQueuedError);
+    }
+
+    online = true;
+    await queue.flush();
+
+    expect(failed).toEqual([]);
+    expect((await queue.getPending()).map((m) => m.body)).toMatchObject([
+      { key: "1" },
+      { key: "2" },
+    ]);
+    expect(JSON.parse((await storage.get("offlineQueue"))!)).toHaveLength(2);
+    // The second mutation was never sent
+    expect(gateway.requests.filter((r) => r.path === "/v1/cache/put")).toEqual(
+      []
+    );
+  });
+});
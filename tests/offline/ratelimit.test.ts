@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { createClient, RateLimiter } from "../../src/index";
+import { MockTransport } from "../../src/testing";
+
+describe("Rate limiting", () => {
+  it("should queue requests beyond the concurrency limit", async () => {
+    const gateway = new MockTransport({ latencyMs: 50 });
+    const rateLimit = new RateLimiter({
+      services: { network: { maxConcurrency: 1 } },
+    });
+    // Identical reads would otherwise be coalesced into one request
+    const client = createClient({
+      ...gateway.clientConfig(),
+      rateLimit,
+      dedupe: false,
+    });
+
+    const pending = Promise.all([1, 2, 3].map(() => client.network.status()));
+    // Auth headers and body encoding are prepared asynchronously
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(rateLimit.getStats().services.network).toMatchObject({
+      queued: 2,
+      active: 1,
+    });
+
+    await pending;
+    expect(gateway.requests).toHaveLength(3);
+    expect(rateLimit.getStats().services.network).toMatchObject({
+      queued: 0,
+      active: 0,
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  ExponentialBackoffRetryPolicy,
+  HttpClient,
+  RateLimitError,
+  SDKError,
+} from "../../src/index";
+import { MockTransport } from "../../src/testing";
+
+describe("ExponentialBackoffRetryPolicy", () => {
+  let gateway: MockTransport;
+  let failures: Array<{ status: number; headers?: Record<string, string> }>;
+  let attempts: number;
+  let http: HttpClient;
+
+  beforeEach(() => {
+    gateway = new MockTransport();
+    failures = [];
+    attempts = 0;
+    http = new HttpClient({
+      baseURL: "http://mock-gateway.local",
+      retryPolicy: new ExponentialBackoffRetryPolicy(2, 1),
+      fetch: async (input, init) => {
+        attempts++;
+        const failure = failures.shift();
+        if (failure) {
+          return new Response(JSON.stringify({ error: "unavailable" }), {
+            status: failure.status,
+            headers: { "Content-Type": "application/json", ...failure.headers },
+          });
+        }
+        return gateway.fetch(input, init);
+      },
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should apply full jitter to the exponential backoff", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+    const policy = new ExponentialBackoffRetryPolicy(5, 100, {
+      maxDelayMs: 300,
+    });
+
+    expect([0, 1, 2, 3].map((attempt) => policy.getDelay(attempt))).toEqual([
+      50, 100, 150, 150,
+    ]);
+    const fixed = new ExponentialBackoffRetryPolicy(5, 100, { jitter: false });
+    expect(fixed.getDelay(2)).toBe(400);
+  });
+
+  it("should honor Retry-After on 429 and 503", async () => {
+    const policy = new ExponentialBackoffRetryPolicy(3, 1000);
+    const rateLimited = SDKError.fromResponse(
+      429,
+      { error: "slow down" },
+      undefined,
+      new Headers({ "Retry-After": "2" })
+    );
+    expect(rateLimited).toBeInstanceOf(RateLimitError);
+    expect(rateLimited.retryAfterMs).toBe(2000);
+    expect(policy.getDelay(0, rateLimited)).toBe(2000);
+
+    // Jitter would make the backoff 0, so only Retry-After can delay the retry
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    failures.push({ status: 503, headers: { "Retry-After": "0.05" } });
+    const started = Date.now();
+
+    await expect(http.get("/v1/network/status")).resolves.toMatchObject({
+      connected: true,
+    });
+    expect(attempts).toBe(2);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(45);
+  });
+
+  it("should not blindly retry non-idempotent writes", async () => {
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    const exec = (options = {}) =>
+      http.post(
+        "/v1/rqlite/exec",
+        { sql: "CREATE TABLE IF NOT EXISTS t (id INTEGER)" },
+        options
+      );
+
+    // 502: the gateway may have applied the write
+    failures.push({ status: 502 });
+    await expect(exec()).rejects.toMatchObject({ httpStatus: 502 });
+    expect(attempts).toBe(1);
+
+    // 503: rejected without processing, safe to resend
+    attempts = 0;
+    failures.push({ status: 503 });
+    await expect(exec()).resolves.toBeDefined();
+    expect(attempts).toBe(2);
+
+    // An idempotency key lets the gateway drop duplicates
+    attempts = 0;
+    failures.push({ status: 502 });
+    await expect(exec({ idempotencyKey: true })).resolves.toBeDefined();
+    expect(attempts).toBe(2);
+
+    // Reads are retried on any retryable status
+    attempts = 0;
+    failures.push({ status: 502 }, { status: 504 });
+    await expect(http.get("/v1/network/status")).resolves.toBeDefined();
+    expect(attempts).toBe(3);
+  });
+});
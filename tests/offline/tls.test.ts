@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createServer } from "node:http";
+import type { AddressInfo, Socket } from "node:net";
+import { createClient, TLSConfiguration, WSClient } from "../../src/index";
+import { MockTransport } from "../../src/testing";
+
+describe("TLS configuration", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should not change process-wide TLS settings", () => {
+    const before = process.env.NODE_TLS_REJECT_UNAUTHORIZED;
+    const client = createClient({
+      baseURL: "https://localhost:6001",
+      tls: { insecure: true },
+    });
+
+    expect(client).toBeDefined();
+    expect(process.env.NODE_TLS_REJECT_UNAUTHORIZED).toBe(before);
+  });
+
+  it("should reject insecure mode combined with pinning", () => {
+    expect(() =>
+      TLSConfiguration.createFetchWithTLSConfig({
+        insecure: true,
+        pinnedFingerprints: ["AB:CD"],
+      })
+    ).toThrow(/pinnedFingerprints/);
+  });
+
+  it("should leave a custom fetch in charge", async () => {
+    const gateway = new MockTransport();
+    const client = createClient({
+      ...gateway.clientConfig(),
+      tls: { ca: "unused" },
+    });
+
+    expect(await client.network.health()).toBe(true);
+    expect(gateway.requests).toHaveLength(1);
+  });
+
+  it("should close the agent's sockets", async () => {
+    const server = createServer((_req, res) => res.end("ok"));
+    const sockets = new Set<Socket>();
+    server.on("connection", (socket) => {
+      sockets.add(socket);
+      socket.on("close", () => sockets.delete(socket));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const tls = TLSConfiguration.createTLSFetch({ insecure: true });
+      const response = await tls.fetch(`http://127.0.0.1:${port}/`);
+      expect(await response.text()).toBe("ok");
+      expect(sockets.size).toBe(1);
+
+      await tls.close();
+
+      await vi.waitFor(() => expect(sockets.size).toBe(0));
+    } finally {
+      server.close();
+    }
+  });
+
+  it("should close cleanly after the agent failed to load", async () => {
+    const failure = new Error("bad client key");
+    vi.spyOn(TLSConfiguration, "connectOptions").mockRejectedValueOnce(failure);
+
+    const tls = TLSConfiguration.createTLSFetch({ insecure: true });
+    await expect(tls.fetch("http://127.0.0.1:1/")).rejects.toBe(failure);
+
+    await expect(tls.close()).resolves.toBeUndefined();
+  });
+
+  it("should retry loading WebSocket TLS options after a failure", async () => {
+    const gateway = new MockTransport();
+    const failure = new Error("bad client key");
+    const connectOptions = vi
+      .spyOn(TLSConfiguration, "connectOptions")
+      .mockRejectedValueOnce(failure);
+    const ws = new WSClient({
+      wsURL: "ws://mock-gateway.local/v1/pubsub/ws?topic=chat",
+      WebSocket: gateway.WebSocket as any,
+      tls: { insecure: true },
+    });
+
+    await expect(ws.connect()).rejects.toBe(failure);
+    await ws.connect();
+
+    expect(ws.isConnected()).toBe(true);
+    expect(connectOptions).toHaveBeenCalledTimes(2);
+    ws.close();
+  });
+});
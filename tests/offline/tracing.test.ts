@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  createClient,
+  formatTraceparent,
+  SpanAttributes,
+  SpanAttributeValue,
+  SpanKind,
+  SpanStatusCode,
+  Tracer,
+  TraceSpan,
+  TraceSpanContext,
+} from "../../src/index";
+import { MockTransport } from "../../src/testing";
+
+class RecordedSpan implements TraceSpan {
+  readonly attributes: Record<string, SpanAttributeValue> = {};
+  status?: { code: number; message?: string };
+  exceptions: Array<Error | string> = [];
+  ended = false;
+
+  constructor(
+    readonly name: string,
+    readonly kind: number | undefined,
+    attributes: SpanAttributes,
+    private readonly context: TraceSpanContext
+  ) {
+    for (const [key, value] of Object.entries(attributes)) {
+      if (value !== undefined) this.attributes[key] = value;
+    }
+  }
+
+  spanContext(): TraceSpanContext {
+    return this.context;
+  }
+
+  setAttribute(key: string, value: SpanAttributeValue): this {
+    this.attributes[key] = value;
+    return this;
+  }
+
+  setStatus(status: { code: number; message?: string }): this {
+    this.status = status;
+    return this;
+  }
+
+  recordException(exception: Error | string): void {
+    this.exceptions.push(exception);
+  }
+
+  end(): void {
+    this.ended = true;
+  }
+}
+
+const span = (context: Partial<TraceSpanContext>) =>
+  new RecordedSpan("test", undefined, {}, {
+    traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+    spanId: "00f067aa0ba902b7",
+    traceFlags: 1,
+    ...context,
+  });
+
+describe("Tracing", () => {
+  let spans: RecordedSpan[];
+  let tracer: Tracer;
+
+  beforeEach(() => {
+    spans = [];
+    tracer = {
+      startSpan: (name, options) => {
+        const recorded = new RecordedSpan(
+          name,
+          options?.kind,
+          options?.attributes ?? {},
+          {
+            traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+            spanId: (spans.length + 1).toString(16).padStart(16, "0"),
+            traceFlags: 1,
+          }
+        );
+        spans.push(recorded);
+        return recorded;
+      },
+    };
+  });
+
+  it("should format W3C traceparent headers", () => {
+    expect(formatTraceparent(span({}))).toBe(
+      "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01"
+    );
+    expect(formatTraceparent(span({ traceFlags: 0 }))).toBe(
+      "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-00"
+    );
+    // No-op spans from a disabled OpenTelemetry SDK have all-zero ids
+    expect(
+      formatTraceparent(span({ traceId: "0".repeat(32) }))
+    ).toBeUndefined();
+    expect(formatTraceparent(span({ spanId: "0".repeat(16) }))).toBeUndefined();
+    expect(formatTraceparent(span({ spanId: "XYZ" }))).toBeUndefined();
+  });
+
+  it("should send one client span per request as traceparent", async () => {
+    const gateway = new MockTransport();
+    const client = createClient({ ...gateway.clientConfig(), tracer });
+    await client.cache.put("users", "1", { name: "Alice" });
+
+    expect(spans).toHaveLength(1);
+    expect(spans[0]).toMatchObject({
+      name: "POST /v1/cache/put",
+      kind: SpanKind.CLIENT,
+      status: { code: SpanStatusCode.OK },
+      ended: true,
+      attributes: {
+        "http.request.method": "POST",
+        "debros.service": "cache",
+        "debros.cache.dmap": "users",
+      },
+    });
+    expect(gateway.requests[0].headers["traceparent"]).toBe(
+      formatTraceparent(spans[0])
+    );
+  });
+
+  it("should mark failed requests with an error status", async () => {
+    const gateway = new MockTransport();
+    const client = createClient({
+      ...gateway.clientConfig(),
+      tracer,
+      maxRetries: 0,
+    });
+
+    const error = await client.functions
+      .invoke("missing", {})
+      .catch((e) => e);
+
+    expect(spans).toHaveLength(1);
+    expect(spans[0].status).toEqual({
+      code: SpanStatusCode.ERROR,
+      message: error.message,
+    });
+    expect(spans[0].exceptions).toEqual([error]);
+    expect(spans[0].attributes).toMatchObject({
+      "http.response.status_code": 404,
+      "error.type": error.code,
+      "faas.invoked_name": "missing",
+    });
+    expect(spans[0].ended).toBe(true);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  createClient,
+  ResponseValidationError,
+  StandardSchemaV1,
+} from "../../src/index";
+import { MockTransport } from "../../src/testing";
+
+const isCounter = (value: unknown) => {
+  if (typeof (value as any)?.count !== "number") {
+    throw new Error("count must be a number");
+  }
+  return value as { count: number };
+};
+
+const named: StandardSchemaV1<unknown, { name: string }> = {
+  "~standard": {
+    version: 1,
+    vendor: "test",
+    validate: (value) =>
+      typeof (value as any)?.name === "string"
+        ? { value: value as { name: string } }
+        : { issues: [{ message: "name must be a string", path: ["name"] }] },
+  },
+};
+
+describe("Response validation", () => {
+  let client: ReturnType<typeof createClient>;
+
+  beforeEach(() => {
+    const gateway = new MockTransport();
+    client = createClient(gateway.clientConfig());
+  });
+
+  it("should validate cached values against a schema", async () => {
+    await client.cache.put("counters", "valid", { count: 1 });
+    await client.cache.put("counters", "invalid", { count: "not-a-number" });
+
+    const valid = await client.cache.get("counters", "valid", {
+      schema: isCounter,
+    });
+    expect(valid?.value.count).toBe(1);
+
+    const error = await client.cache
+      .get("counters", "invalid", { schema: isCounter })
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(ResponseValidationError);
+    expect(error.issues[0].path).toEqual(["value"]);
+  });
+
+  it("should validate each row with a Standard Schema", async () => {
+    await client.db.createTable("CREATE TABLE users (id INTEGER, name TEXT)");
+    await client.db.exec("INSERT INTO users VALUES (1, 'Alice'), (2, NULL)");
+
+    const error = await client.db
+      .query("SELECT * FROM users ORDER BY id", [], { schema: named })
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(ResponseValidationError);
+    expect(error.issues).toEqual([
+      { message: "name must be a string", path: ["items", 1, "name"] },
+    ]);
+
+    const rows = await client.db.query("SELECT * FROM users WHERE id = 1", [], {
+      schema: named,
+    });
+    expect(rows).toEqual([{ id: 1, name: "Alice" }]);
+  });
+});